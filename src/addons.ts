@@ -1,5 +1,5 @@
 import fs from "node:fs";
-import { join } from "node:path";
+import { basename, dirname, join } from "node:path";
 import { InvalidAddonPath } from "./exceptions.js";
 import { type CamoufoxPaths, getPath, unzip, webdl } from "./pkgman.js";
 import { getAsBooleanFromENV } from "./utils.js";
@@ -59,9 +59,9 @@ export async function downloadAndExtract(
 }
 
 /**
- * Returns a path to the addon
+ * Returns the name of the addon's directory
  */
-function getAddonPath(addonName: string, paths?: CamoufoxPaths): string {
+function addonDirName(addonName: string): string {
 	// If addonName is a URL, create a sanitized name from it
 	let sanitizedName = addonName;
 	if (addonName.startsWith("http://") || addonName.startsWith("https://")) {
@@ -76,7 +76,26 @@ function getAddonPath(addonName: string, paths?: CamoufoxPaths): string {
 			.reduce((acc, char) => acc + char.charCodeAt(0), 0);
 		sanitizedName = `${nameWithoutExt}-${hash}`;
 	}
-	return getPath(join("addons", sanitizedName), paths);
+	return sanitizedName;
+}
+
+/**
+ * Returns a path to the addon
+ */
+function getAddonPath(addonName: string, paths?: CamoufoxPaths): string {
+	return getPath(join("addons", addonDirName(addonName)), paths);
+}
+
+/**
+ * Whether the path is where a default addon is extracted, on this or any other machine.
+ */
+export function isDefaultAddonPath(addonPath: string): boolean {
+	return (
+		basename(dirname(addonPath)) === "addons" &&
+		Object.values(DefaultAddons).some(
+			(url) => addonDirName(url) === basename(addonPath),
+		)
+	);
 }
 
 /**
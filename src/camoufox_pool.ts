@@ -0,0 +1,307 @@
+import {
+	type Browser,
+	type BrowserContext,
+	type BrowserContextOptions,
+	firefox,
+} from "playwright-core";
+import { CamoufoxPoolClosed } from "./exceptions.js";
+import { FingerprintPool, type PooledFingerprint } from "./fingerprint_pool.js";
+import { type CamoufoxHandle, NewBrowser } from "./sync_api.js";
+import type { LaunchOptions } from "./utils.js";
+
+export interface CamoufoxPoolOptions {
+	/** Number of browsers kept running. */
+	size: number;
+
+	/** Launch options shared by every browser. `profile` and `seed` are set per browser. */
+	launch_options?: LaunchOptions;
+
+	/** Headless mode of the browsers. `"virtual"` gives each browser its own virtual display,
+	 * unless `launch_options.virtual_display_pool` is set.
+	 */
+	headless?: boolean | "virtual";
+
+	/** Fingerprints of the browsers. Defaults to a pool of `size` fingerprints for `launch_options.os`,
+	 * which needs Camoufox to be installed (or `launch_options.ff_version`) when the pool is created.
+	 */
+	fingerprints?: FingerprintPool;
+
+	/** Proxies assigned to the browsers in order. A browser keeps its proxy when it is recycled,
+	 * unless the proxy is a `ProxyProvider`, which hands out a new one for every launch.
+	 */
+	proxies?: NonNullable<LaunchOptions["proxy"]>[];
+
+	/** Restart a browser once it opened this many pages. By default, browsers are only restarted after a crash. */
+	max_pages?: number;
+
+	/** Print the launch options of every browser. */
+	debug?: boolean;
+}
+
+export interface PooledBrowser {
+	/** The browser, reserved for the holder of the lease until `release()`. */
+	browser: Browser & CamoufoxHandle;
+	/** The fingerprint of the browser. */
+	fingerprint: PooledFingerprint;
+	/** The proxy of the browser, if any. */
+	proxy?: LaunchOptions["proxy"];
+	/** Gives the browser back to the pool. */
+	release(): Promise<void>;
+}
+
+interface BrowserSlot {
+	fingerprint: PooledFingerprint;
+	proxy?: LaunchOptions["proxy"];
+	browser: (Browser & CamoufoxHandle) | null;
+	launching: Promise<Browser & CamoufoxHandle> | null;
+	pages: number;
+	busy: boolean;
+}
+
+/**
+ * Keeps a number of Camoufox browsers running, each with its own fingerprint and proxy,
+ * and hands them out to tasks one at a time.
+ * Browsers are restarted after `max_pages` pages or when they crash.
+ *
+ * Unlike `Camoufox()`, the pool does not install Camoufox, since its fingerprints are generated
+ * for the installed Firefox version in the constructor. Run `camoufox fetch` first, or pass `fingerprints`.
+ *
+ * ```ts
+ * const pool = new CamoufoxPool({ size: 4, launch_options: { os: "windows" }, max_pages: 50 });
+ * await pool.run(async (browser) => {
+ *     const page = await browser.newPage();
+ *     // ...
+ * });
+ * await pool.close();
+ * ```
+ */
+export class CamoufoxPool {
+	private readonly options: CamoufoxPoolOptions;
+	private readonly slots: BrowserSlot[];
+	private readonly waiting: {
+		resolve: (slot: BrowserSlot) => void;
+		reject: (error: Error) => void;
+	}[] = [];
+	private closed = false;
+
+	constructor(options: CamoufoxPoolOptions) {
+		if (!Number.isInteger(options.size) || options.size < 1) {
+			throw new Error("The pool size must be a positive integer.");
+		}
+		this.options = options;
+
+		const launchOptions = options.launch_options ?? {};
+		const fingerprints =
+			options.fingerprints ??
+			new FingerprintPool({
+				size: options.size,
+				os: launchOptions.os,
+				// Profiles are not resized by `NewBrowser`, so they must fit on the shared displays already
+				screen:
+					launchOptions.screen ??
+					(options.headless === "virtual"
+						? launchOptions.virtual_display_pool?.screenConstraints
+						: undefined),
+				window: launchOptions.window,
+				ff_version: launchOptions.ff_version?.toString(),
+				seed: launchOptions.seed,
+				paths: launchOptions.paths,
+			});
+		const proxies = options.proxies ?? [];
+
+		this.slots = Array.from({ length: options.size }, (_, i) => ({
+			fingerprint: fingerprints.next(),
+			proxy:
+				proxies.length > 0 ? proxies[i % proxies.length] : launchOptions.proxy,
+			browser: null,
+			launching: null,
+			pages: 0,
+			busy: false,
+		}));
+	}
+
+	/**
+	 * Number of running browsers.
+	 */
+	get running(): number {
+		return this.slots.filter((slot) => slot.browser !== null).length;
+	}
+
+	/**
+	 * Launches every browser ahead of the first task.
+	 */
+	async start(): Promise<void> {
+		this.assertOpen();
+		await Promise.all(this.slots.map((slot) => this.launch(slot)));
+	}
+
+	private assertOpen(): void {
+		if (this.closed) {
+			throw new CamoufoxPoolClosed();
+		}
+	}
+
+	private launch(slot: BrowserSlot): Promise<Browser & CamoufoxHandle> {
+		if (slot.browser) {
+			return Promise.resolve(slot.browser);
+		}
+
+		slot.launching ??= (async () => {
+			try {
+				const { launch_options, headless, debug } = this.options;
+				const browser = await NewBrowser<false, Browser & CamoufoxHandle>(
+					firefox,
+					headless,
+					{},
+					false,
+					debug,
+					{
+						...launch_options,
+						profile: slot.fingerprint.profile,
+						seed: slot.fingerprint.seed,
+						proxy: slot.proxy,
+					},
+				);
+				this.track(slot, browser);
+				slot.browser = browser;
+				slot.pages = 0;
+				return browser;
+			} finally {
+				slot.launching = null;
+			}
+		})();
+		return slot.launching;
+	}
+
+	/**
+	 * Counts the pages opened by the browser and forgets it when it disconnects.
+	 */
+	private track(slot: BrowserSlot, browser: Browser): void {
+		const target = browser as any;
+		const newContext = target.newContext;
+		// `Browser.newPage` creates its context through `newContext` as well
+		target.newContext = async (...args: any[]): Promise<BrowserContext> => {
+			const context: BrowserContext = await newContext.apply(target, args);
+			context.on("page", () => slot.pages++);
+			return context;
+		};
+
+		browser.once("disconnected", () => {
+			if (slot.browser === browser) {
+				slot.browser = null;
+			}
+		});
+	}
+
+	/**
+	 * Reserves a browser, waiting until one is free.
+	 */
+	async acquire(): Promise<PooledBrowser> {
+		this.assertOpen();
+
+		const free = this.slots.find((slot) => !slot.busy);
+		let slot: BrowserSlot;
+		if (free) {
+			slot = free;
+			slot.busy = true;
+		} else {
+			slot = await new Promise<BrowserSlot>((resolve, reject) =>
+				this.waiting.push({ resolve, reject }),
+			);
+		}
+
+		let browser: Browser & CamoufoxHandle;
+		try {
+			// Relaunches browsers that crashed or were recycled
+			browser = await this.launch(slot);
+		} catch (error) {
+			this.free(slot);
+			throw error;
+		}
+
+		let released = false;
+		return {
+			browser,
+			fingerprint: slot.fingerprint,
+			proxy: slot.proxy,
+			release: async () => {
+				if (released) return;
+				released = true;
+				await this.recycle(slot, browser);
+				this.free(slot);
+			},
+		};
+	}
+
+	/**
+	 * Creates a context in a reserved browser. The browser is given back when the context closes.
+	 */
+	async newContext(options?: BrowserContextOptions): Promise<BrowserContext> {
+		const lease = await this.acquire();
+		let context: BrowserContext;
+		try {
+			context = await lease.browser.newContext(options);
+		} catch (error) {
+			await lease.release();
+			throw error;
+		}
+		context.once("close", () => lease.release());
+		return context;
+	}
+
+	/**
+	 * Runs a task with a reserved browser, and gives the browser back once the task settles.
+	 */
+	async run<T>(
+		task: (browser: Browser, lease: PooledBrowser) => Promise<T>,
+	): Promise<T> {
+		const lease = await this.acquire();
+		try {
+			return await task(lease.browser, lease);
+		} finally {
+			await lease.release();
+		}
+	}
+
+	/**
+	 * Closes the browser if it opened `max_pages` pages, so the next task gets a fresh one.
+	 */
+	private async recycle(slot: BrowserSlot, browser: Browser): Promise<void> {
+		const { max_pages } = this.options;
+		if (
+			slot.browser === browser &&
+			max_pages !== undefined &&
+			slot.pages >= max_pages
+		) {
+			slot.browser = null;
+			await browser.close().catch(() => {});
+		}
+	}
+
+	private free(slot: BrowserSlot): void {
+		const next = this.waiting.shift();
+		if (next) {
+			next.resolve(slot);
+		} else {
+			slot.busy = false;
+		}
+	}
+
+	/**
+	 * Closes every browser, including those still in use, and rejects pending `acquire()` calls.
+	 */
+	async close(): Promise<void> {
+		this.closed = true;
+		for (const waiter of this.waiting.splice(0)) {
+			waiter.reject(new CamoufoxPoolClosed());
+		}
+
+		await Promise.all(
+			this.slots.map(async (slot) => {
+				const browser = await slot.launching?.catch(() => null);
+				await (browser ?? slot.browser)?.close().catch(() => {});
+				slot.browser = null;
+			}),
+		);
+	}
+}
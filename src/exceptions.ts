@@ -69,16 +69,34 @@ export class LocaleError extends Error {
 }
 
 export class InvalidIP extends Error {
-	constructor(message?: string) {
-		super(message ?? "An IP address is invalid.");
+	constructor(message?: string, options?: ErrorOptions) {
+		super(message ?? "An IP address is invalid.", options);
 		this.name = "InvalidIP";
 	}
 }
 
+/**
+ * Why a proxy failed its pre-flight check.
+ */
+export type InvalidProxyReason =
+	| "unreachable"
+	| "timeout"
+	| "auth-failed"
+	| "slow"
+	| "ip-leak"
+	| "geoip-mismatch";
+
 export class InvalidProxy extends Error {
-	constructor(message?: string) {
-		super(message ?? "A proxy is invalid.");
+	reason?: InvalidProxyReason;
+
+	constructor(
+		message?: string,
+		reason?: InvalidProxyReason,
+		options?: ErrorOptions,
+	) {
+		super(message ?? "A proxy is invalid.", options);
 		this.name = "InvalidProxy";
+		this.reason = reason;
 	}
 }
 
@@ -89,6 +107,13 @@ export class UnknownIPLocation extends LocaleError {
 	}
 }
 
+export class InvalidGeoIPDatabase extends LocaleError {
+	constructor(message?: string) {
+		super(message ?? "The GeoIP database is invalid.");
+		this.name = "InvalidGeoIPDatabase";
+	}
+}
+
 export class InvalidLocale extends LocaleError {
 	constructor(message?: string) {
 		super(message ?? "The locale input is invalid.");
@@ -130,6 +155,27 @@ export class NonFirefoxFingerprint extends Error {
 	}
 }
 
+export class FingerprintPoolExhausted extends Error {
+	constructor(message?: string) {
+		super(message ?? "All fingerprints in the pool have been retired.");
+		this.name = "FingerprintPoolExhausted";
+	}
+}
+
+export class CamoufoxPoolClosed extends Error {
+	constructor(message?: string) {
+		super(message ?? "The browser pool is closed.");
+		this.name = "CamoufoxPoolClosed";
+	}
+}
+
+export class UnprotectedServer extends Error {
+	constructor(message?: string) {
+		super(message ?? "The server would be reachable without authentication.");
+		this.name = "UnprotectedServer";
+	}
+}
+
 export class InvalidOS extends Error {
 	constructor(message?: string) {
 		super(message ?? "The target OS is invalid.");
@@ -167,6 +213,37 @@ export class VirtualDisplayNotSupported extends VirtualDisplayError {
 	}
 }
 
+export class InvalidProfile extends Error {
+	constructor(message?: string) {
+		super(message ?? "The profile document is invalid.");
+		this.name = "InvalidProfile";
+	}
+}
+
+export class XvfbStartupFailed extends VirtualDisplayError {
+	stderr: string;
+
+	constructor(message?: string, stderr: string = "") {
+		super(message ?? "Xvfb failed to start.");
+		this.name = "XvfbStartupFailed";
+		this.stderr = stderr;
+	}
+}
+
+export class LiveViewFailed extends VirtualDisplayError {
+	constructor(message?: string) {
+		super(message ?? "The live view could not be started.");
+		this.name = "LiveViewFailed";
+	}
+}
+
+export class RecorderFailed extends VirtualDisplayError {
+	constructor(message?: string) {
+		super(message ?? "The display could not be recorded.");
+		this.name = "RecorderFailed";
+	}
+}
+
 export class CamoufoxNotInstalled extends Error {
 	constructor(message?: string) {
 		super(message ?? "Camoufox is not installed.");
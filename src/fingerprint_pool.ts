@@ -0,0 +1,211 @@
+import type {
+	Fingerprint,
+	FingerprintGeneratorOptions,
+} from "fingerprint-generator";
+import {
+	CamoufoxNotInstalled,
+	FingerprintPoolExhausted,
+} from "./exceptions.js";
+import {
+	fromBrowserforge,
+	generateFingerprint,
+	type SUPPORTED_OS,
+} from "./fingerprints.js";
+import { type CamoufoxPaths, installedVerStr } from "./pkgman.js";
+import type { FingerprintProfile } from "./profile.js";
+import { type RandomSource, seededRandom, weightedIndex } from "./random.js";
+import { validateOS } from "./utils.js";
+
+export interface FingerprintPoolOptions {
+	/** Number of fingerprints to generate. */
+	size: number;
+
+	/** Operating system(s) to generate fingerprints for. */
+	os?: (typeof SUPPORTED_OS)[number] | (typeof SUPPORTED_OS)[number][];
+
+	/** Constrains the screen dimensions of the generated fingerprints. */
+	screen?: FingerprintGeneratorOptions["screen"];
+
+	/** Set a fixed window size instead of generating a random one. */
+	window?: [number, number];
+
+	/** How fingerprints are handed out. Defaults to `"round-robin"`. */
+	strategy?: "round-robin" | "weighted";
+
+	/** Generate a new fingerprint whenever one is retired, keeping the pool at `size`. */
+	replenish?: boolean;
+
+	/** Firefox version to write into the fingerprints. Defaults to the installed Camoufox version, and is required without it. */
+	ff_version?: string;
+
+	/** Seed for generating and picking fingerprints. */
+	seed?: number | string;
+
+	/** Custom paths configuration for Camoufox. */
+	paths?: CamoufoxPaths;
+}
+
+export interface PooledFingerprint {
+	/** Identifier of the fingerprint within the pool. */
+	id: string;
+	/** The BrowserForge fingerprint. */
+	fingerprint: Fingerprint;
+	/** The fingerprint converted to Camoufox config. Pass it to `launchOptions` as `profile`. */
+	profile: FingerprintProfile;
+	/** Seed for the remaining random values (fonts, WebGL, canvas...). Pass it to `launchOptions` as `seed`. */
+	seed: number;
+	/** Relative weight used by the `"weighted"` strategy. */
+	weight: number;
+	/** How many times the fingerprint was handed out. */
+	uses: number;
+	/** Whether the fingerprint was retired and will not be handed out again. */
+	retired: boolean;
+}
+
+/**
+ * A pool of pre-generated fingerprints that can be reused across launches.
+ *
+ * ```ts
+ * const pool = new FingerprintPool({ size: 10, os: "windows" });
+ * const entry = pool.next();
+ * const browser = await Camoufox({ profile: entry.profile, seed: entry.seed });
+ * // ...
+ * pool.retire(entry.id); // after a block
+ * ```
+ */
+export class FingerprintPool {
+	private readonly options: FingerprintPoolOptions;
+	private readonly operatingSystems?: (typeof SUPPORTED_OS)[number][];
+	private readonly random: RandomSource;
+	private readonly ffVersion: string;
+	private readonly fingerprints: PooledFingerprint[] = [];
+	private cursor = 0;
+	private generated = 0;
+
+	constructor(options: FingerprintPoolOptions) {
+		if (!Number.isInteger(options.size) || options.size < 1) {
+			throw new Error("The pool size must be a positive integer.");
+		}
+		this.options = options;
+		this.operatingSystems = validateOS(options.os);
+		this.random =
+			options.seed === undefined ? Math.random : seededRandom(options.seed);
+		this.ffVersion =
+			options.ff_version ?? FingerprintPool.installedFFVersion(options.paths);
+
+		for (let i = 0; i < options.size; i++) {
+			this.fingerprints.push(this.generate());
+		}
+	}
+
+	/**
+	 * Without the installed version, the fingerprints would keep BrowserForge's Firefox versions,
+	 * which `launchOptions` does not rewrite since profiles take precedence.
+	 */
+	private static installedFFVersion(paths?: CamoufoxPaths): string {
+		try {
+			return installedVerStr(paths).split(".", 1)[0];
+		} catch (error) {
+			if (error instanceof Error && error.name === "FileNotFoundError") {
+				throw new CamoufoxNotInstalled(
+					"Camoufox must be installed to generate fingerprints matching its Firefox version. " +
+						"Run `camoufox fetch`, or pass ff_version.",
+				);
+			}
+			throw error;
+		}
+	}
+
+	private generate(): PooledFingerprint {
+		const { screen, window } = this.options;
+		const fingerprint = generateFingerprint(
+			window,
+			{ screen, operatingSystems: this.operatingSystems },
+			this.random,
+		);
+
+		return {
+			id: `fp-${++this.generated}`,
+			fingerprint,
+			profile: {
+				config: fromBrowserforge(fingerprint, this.ffVersion, this.random),
+				firefoxUserPrefs: {},
+			},
+			seed: Math.floor(this.random() * 2 ** 32),
+			weight: 1,
+			uses: 0,
+			retired: false,
+		};
+	}
+
+	/**
+	 * All fingerprints in the pool, including retired ones.
+	 */
+	get entries(): readonly PooledFingerprint[] {
+		return this.fingerprints;
+	}
+
+	/**
+	 * Fingerprints that can still be handed out.
+	 */
+	get active(): PooledFingerprint[] {
+		return this.fingerprints.filter((entry) => !entry.retired);
+	}
+
+	/**
+	 * Hands out the next fingerprint and counts the use.
+	 */
+	next(): PooledFingerprint {
+		const active = this.active;
+		if (active.length === 0) {
+			throw new FingerprintPoolExhausted();
+		}
+
+		let entry: PooledFingerprint;
+		if (this.options.strategy === "weighted") {
+			const weights = active.map((e) => e.weight);
+			entry = active[weightedIndex(weights, this.random)];
+		} else {
+			entry = active[this.cursor % active.length];
+			this.cursor = (this.cursor + 1) % active.length;
+		}
+
+		entry.uses++;
+		return entry;
+	}
+
+	/**
+	 * Returns the fingerprint with the given id.
+	 */
+	get(id: string): PooledFingerprint | undefined {
+		return this.fingerprints.find((entry) => entry.id === id);
+	}
+
+	/**
+	 * Changes how often a fingerprint is picked by the `"weighted"` strategy.
+	 */
+	setWeight(id: string, weight: number): void {
+		if (weight < 0) {
+			throw new Error("weights must be non-negative");
+		}
+		const entry = this.get(id);
+		if (entry) {
+			entry.weight = weight;
+		}
+	}
+
+	/**
+	 * Stops handing out a fingerprint, e.g. after it got blocked.
+	 */
+	retire(id: string): void {
+		const entry = this.get(id);
+		if (!entry || entry.retired) {
+			return;
+		}
+		entry.retired = true;
+
+		if (this.options.replenish) {
+			this.fingerprints.push(this.generate());
+		}
+	}
+}
@@ -5,6 +5,7 @@ import {
 	type ScreenFingerprint,
 } from "fingerprint-generator";
 import BROWSERFORGE_DATA from "./mappings/browserforge.config.js";
+import { type RandomSource, randrange, withRandom } from "./random.js";
 
 export const SUPPORTED_OS = ["linux", "macos", "windows"] as const;
 
@@ -13,10 +14,6 @@ const FP_GENERATOR = new FingerprintGenerator({
 	operatingSystems: SUPPORTED_OS as any,
 });
 
-function randrange(min: number, max: number): number {
-	return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
 interface ExtendedScreen extends ScreenFingerprint {
 	screenY?: number;
 }
@@ -51,6 +48,7 @@ function _castToProperties(
 function handleScreenXY(
 	camoufoxData: Record<string, any>,
 	fpScreen: ScreenFingerprint,
+	random: RandomSource,
 ): void {
 	if ("window.screenY" in camoufoxData) return;
 	const screenX = fpScreen.screenX;
@@ -67,15 +65,16 @@ function handleScreenXY(
 	if (screenY === 0) {
 		camoufoxData["window.screenY"] = 0;
 	} else if (screenY > 0) {
-		camoufoxData["window.screenY"] = randrange(0, screenY);
+		camoufoxData["window.screenY"] = randrange(0, screenY, random);
 	} else {
-		camoufoxData["window.screenY"] = randrange(screenY, 0);
+		camoufoxData["window.screenY"] = randrange(screenY, 0, random);
 	}
 }
 
 export function fromBrowserforge(
 	fingerprint: Fingerprint,
 	ffVersion?: string,
+	random: RandomSource = Math.random,
 ): Record<string, any> {
 	const camoufoxData: Record<string, any> = {};
 	_castToProperties(
@@ -84,7 +83,7 @@ export function fromBrowserforge(
 		{ ...fingerprint },
 		ffVersion,
 	);
-	handleScreenXY(camoufoxData, fingerprint.screen);
+	handleScreenXY(camoufoxData, fingerprint.screen, random);
 	return camoufoxData;
 }
 
@@ -110,11 +109,13 @@ function handleWindowSize(
 export function generateFingerprint(
 	window?: [number, number],
 	config?: Partial<FingerprintGeneratorOptions>,
+	random: RandomSource = Math.random,
 ): Fingerprint {
+	const { fingerprint } = withRandom(random, () =>
+		FP_GENERATOR.getFingerprint(config),
+	);
 	if (window) {
-		const { fingerprint } = FP_GENERATOR.getFingerprint(config);
 		handleWindowSize(fingerprint, window[0], window[1]);
-		return fingerprint;
 	}
-	return FP_GENERATOR.getFingerprint(config).fingerprint;
+	return fingerprint;
 }
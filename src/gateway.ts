@@ -0,0 +1,219 @@
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { BrowserServer } from "playwright-core";
+import type { CamoufoxPaths } from "./pkgman.js";
+import {
+	assertServerProtected,
+	authorizeUpgrade,
+	launchServer,
+	type ServerAccessOptions,
+} from "./server.js";
+import type { LaunchOptions } from "./utils.js";
+import {
+	listenForUpgrades,
+	proxyUpgrade,
+	rejectUpgrade,
+	upgradeEndpoint,
+} from "./ws_proxy.js";
+
+// Header a client can send its launch options in, as JSON
+export const LAUNCH_OPTIONS_HEADER = "x-camoufox-launch-options";
+
+// Launch options clients may set by default. Options touching the host (paths, executables, addons, env...) are left out.
+export const DEFAULT_CLIENT_OPTIONS: (keyof LaunchOptions)[] = [
+	"os",
+	"locale",
+	"proxy",
+	"geoip",
+	"humanize",
+	"block_images",
+	"block_webrtc",
+	"block_webgl",
+	"disable_coop",
+	"screen",
+	"window",
+	"fonts",
+	"custom_fonts_only",
+	"webgl_config",
+	"enable_cache",
+	"seed",
+	"proxy_check",
+];
+
+export interface GatewayOptions extends ServerAccessOptions {
+	/** Port to listen on. Defaults to a random free port. */
+	port?: number;
+	/** Host to listen on. Defaults to `"localhost"`. Other hosts require `token` or `allowed_ips`. */
+	host?: string;
+	/** Path of the WebSocket endpoint. Defaults to `"/"`. */
+	ws_path?: string;
+	/** Launch options used for every browser. Client options are applied on top. */
+	launch_options?: LaunchOptions;
+	/** Launch options clients may set. Defaults to `DEFAULT_CLIENT_OPTIONS`. */
+	client_options?: (keyof LaunchOptions)[];
+	/** Custom paths configuration for Camoufox. */
+	paths?: CamoufoxPaths;
+	/** Print the connections and launched browsers. */
+	debug?: boolean;
+}
+
+export interface CamoufoxGateway {
+	/** WebSocket endpoint to pass to `firefox.connect()`. */
+	wsEndpoint(): string;
+	/** Number of connected clients, each with its own browser. */
+	readonly clients: number;
+	/** Stops accepting clients and closes every browser. */
+	close(): Promise<void>;
+}
+
+/**
+ * Reads the launch options of a client from the handshake header and the query string.
+ * Query values are parsed as JSON when possible, and repeated parameters become lists:
+ * `?os=windows&os=macos&geoip=true&locale=en-US`
+ */
+export function parseClientOptions(
+	req: IncomingMessage,
+	allowed: (keyof LaunchOptions)[] = DEFAULT_CLIENT_OPTIONS,
+): LaunchOptions {
+	const options: Record<string, any> = {};
+
+	const header = req.headers[LAUNCH_OPTIONS_HEADER];
+	if (typeof header === "string") {
+		try {
+			Object.assign(options, JSON.parse(header));
+		} catch {
+			throw new Error(`${LAUNCH_OPTIONS_HEADER} is not valid JSON.`);
+		}
+	}
+
+	const { searchParams } = new URL(req.url ?? "/", "http://localhost");
+	for (const key of new Set(searchParams.keys())) {
+		// Checked by the access control, not a launch option
+		if (key === "token") continue;
+		const values = searchParams.getAll(key).map(parseQueryValue);
+		options[key] = values.length > 1 ? values : values[0];
+	}
+
+	for (const key of Object.keys(options)) {
+		if (!allowed.includes(key as keyof LaunchOptions)) {
+			throw new Error(`The option "${key}" cannot be set by clients.`);
+		}
+	}
+	return options;
+}
+
+function parseQueryValue(value: string): unknown {
+	try {
+		return JSON.parse(value);
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Serves a WebSocket endpoint that launches a fresh Camoufox browser, with its own fingerprint,
+ * for every client. Clients choose their launch options through the query string or the
+ * `x-camoufox-launch-options` header:
+ *
+ * ```ts
+ * const gateway = await launchGateway({ port: 8888 });
+ * const browser = await firefox.connect(`${gateway.wsEndpoint()}?os=windows&geoip=true`);
+ * ```
+ */
+export async function launchGateway({
+	port = 0,
+	host = "localhost",
+	ws_path = "/",
+	launch_options = {},
+	client_options = DEFAULT_CLIENT_OPTIONS,
+	paths,
+	debug = false,
+	...access
+}: GatewayOptions = {}): Promise<CamoufoxGateway> {
+	assertServerProtected(host, access);
+	const browsers = new Set<BrowserServer>();
+	const path = ws_path.startsWith("/") ? ws_path : `/${ws_path}`;
+
+	const http = await listenForUpgrades(
+		port,
+		host,
+		path,
+		async (req, socket, head) => {
+			if (!authorizeUpgrade(req, socket, access)) {
+				return;
+			}
+
+			let clientOptions: LaunchOptions;
+			try {
+				clientOptions = parseClientOptions(req, client_options);
+			} catch (error) {
+				rejectUpgrade(socket, 400, (error as Error).message);
+				return;
+			}
+			if (debug) {
+				console.log(
+					`Client ${req.socket.remoteAddress} connected with`,
+					clientOptions,
+				);
+			}
+
+			let server: BrowserServer;
+			try {
+				server = await launchServer({
+					...launch_options,
+					...clientOptions,
+					paths,
+					debug,
+					port: 0,
+					ws_path: `/${randomUUID()}`,
+				});
+			} catch (error) {
+				rejectUpgrade(
+					socket,
+					500,
+					`Camoufox failed to launch: ${(error as Error).message}`,
+				);
+				return;
+			}
+			if (socket.destroyed) {
+				// The client left while the browser was starting
+				await server.close().catch(() => {});
+				return;
+			}
+			browsers.add(server);
+
+			const closeBrowser = () => {
+				if (browsers.delete(server)) {
+					server.close().catch(() => {});
+				}
+			};
+			socket.once("close", closeBrowser);
+
+			try {
+				await proxyUpgrade(req, socket, head, server.wsEndpoint());
+			} catch (error) {
+				closeBrowser();
+				rejectUpgrade(socket, 500, (error as Error).message);
+			}
+		},
+	);
+	const endpoint = upgradeEndpoint(http, host, path);
+
+	return {
+		wsEndpoint: () => endpoint,
+		get clients() {
+			return browsers.size;
+		},
+		close: async () => {
+			// Closing the browsers disconnects their clients, which lets the server close
+			const closed = new Promise<void>((resolve) =>
+				http.close(() => resolve()),
+			);
+			await Promise.all(
+				[...browsers].map((server) => server.close().catch(() => {})),
+			);
+			await closed;
+			browsers.clear();
+		},
+	};
+}
@@ -0,0 +1,440 @@
+import * as fs from "node:fs";
+import { BlockList, isIPv4, isIPv6 } from "node:net";
+import * as path from "node:path";
+import maxmind, { type CityResponse, type Reader } from "maxmind";
+import { FileNotFoundError, InvalidGeoIPDatabase } from "./exceptions.js";
+
+/**
+ * Where an IP address is located.
+ */
+export interface GeoIPRecord {
+	/** ISO 3166-1 alpha-2 country code, e.g. `"DE"`. */
+	country: string;
+	longitude: number;
+	latitude: number;
+	/** IANA time zone, e.g. `"Europe/Berlin"`. */
+	timezone: string;
+	/** Accuracy of the coordinates, in meters. */
+	accuracy?: number;
+}
+
+/**
+ * Looks up where IP addresses are located. Pass one as `geoip` to choose the database used.
+ */
+export interface GeoIPProvider {
+	/** Returns the location of the IP, or `null` if it is unknown. */
+	lookup(ip: string): GeoIPRecord | null | Promise<GeoIPRecord | null>;
+}
+
+export function isGeoIPProvider(geoip: unknown): geoip is GeoIPProvider {
+	return (
+		typeof geoip === "object" &&
+		geoip !== null &&
+		typeof (geoip as GeoIPProvider).lookup === "function"
+	);
+}
+
+// Opened databases, by path. The City database is too large to read again on every lookup.
+const MMDB_READERS = new Map<string, Promise<Reader<CityResponse>>>();
+
+/**
+ * Opens a MaxMind database once per path.
+ * The reader reloads the file when it changes, e.g. when a new version is renamed over it.
+ */
+function openMMDB(file: string): Promise<Reader<CityResponse>> {
+	const key = path.resolve(file);
+	let reader = MMDB_READERS.get(key);
+	if (!reader) {
+		if (!fs.existsSync(key)) {
+			throw new FileNotFoundError(`GeoIP database not found: ${file}`);
+		}
+		reader = maxmind.open<CityResponse>(key, {
+			watchForUpdates: true,
+			// The watcher must not keep the process alive
+			watchForUpdatesNonPersistent: true,
+		});
+		MMDB_READERS.set(key, reader);
+		// Let the next lookup try again
+		reader.catch(() => closeMMDB(key));
+	}
+	return reader;
+}
+
+/**
+ * Forgets the cached reader of a MaxMind database and stops watching the file.
+ */
+export function closeMMDB(file: string): void {
+	const key = path.resolve(file);
+	if (MMDB_READERS.delete(key)) {
+		fs.unwatchFile(key);
+	}
+}
+
+/**
+ * Reads a MaxMind City database (`.mmdb`), such as GeoLite2-City or GeoIP2-City.
+ */
+export class MMDBGeoIPProvider implements GeoIPProvider {
+	constructor(readonly path: string) {}
+
+	async lookup(ip: string): Promise<GeoIPRecord | null> {
+		const reader = await openMMDB(this.path);
+
+		const resp = reader.get(ip);
+		const country = resp?.country?.iso_code;
+		const location = resp?.location;
+		if (
+			!country ||
+			!location?.longitude ||
+			!location?.latitude ||
+			!location?.time_zone
+		) {
+			return null;
+		}
+		return {
+			country: country.toUpperCase(),
+			longitude: location.longitude,
+			latitude: location.latitude,
+			timezone: location.time_zone,
+		};
+	}
+}
+
+export interface CSVGeoIPColumns {
+	ip_from: number;
+	ip_to: number;
+	country: number;
+	latitude: number;
+	longitude: number;
+	timezone: number;
+}
+
+// Column layout of the IP2Location DB11 CSV files
+const IP2LOCATION_COLUMNS: CSVGeoIPColumns = {
+	ip_from: 0,
+	ip_to: 1,
+	country: 2,
+	latitude: 6,
+	longitude: 7,
+	timezone: 9,
+};
+
+interface CSVRange {
+	from: bigint;
+	to: bigint;
+	record: GeoIPRecord;
+}
+
+function splitCSVLine(line: string): string[] {
+	const fields: string[] = [];
+	let field = "";
+	let quoted = false;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			fields.push(field);
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	fields.push(field);
+	return fields;
+}
+
+/**
+ * Converts an IP address to a number, as in the `ip_from` and `ip_to` columns.
+ */
+function ipToNumber(ip: string): bigint {
+	if (isIPv4(ip)) {
+		return ip
+			.split(".")
+			.reduce((value, part) => (value << 8n) + BigInt(part), 0n);
+	}
+	if (!isIPv6(ip)) {
+		throw new InvalidGeoIPDatabase(`Invalid IP address: ${ip}`);
+	}
+
+	let address = ip;
+	// Embedded IPv4, e.g. ::ffff:203.0.113.7
+	const ipv4 = address.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+	if (ipv4) {
+		const value = ipToNumber(ipv4);
+		address = address.replace(
+			ipv4,
+			`${(value >> 16n).toString(16)}:${(value & 0xffffn).toString(16)}`,
+		);
+	}
+	const [head, tail] = address.split("::");
+	const headGroups = head ? head.split(":") : [];
+	const tailGroups = tail ? tail.split(":") : [];
+	const groups =
+		tail === undefined
+			? headGroups
+			: [
+					...headGroups,
+					...Array(8 - headGroups.length - tailGroups.length).fill("0"),
+					...tailGroups,
+				];
+	return groups.reduce(
+		(value, group) => (value << 16n) + BigInt(`0x${group}`),
+		0n,
+	);
+}
+
+interface CountryZone {
+	zone: string;
+	latitude: number;
+	longitude: number;
+}
+
+// IANA time zones by country, with the coordinates of their main city (tzdata's zone.tab)
+let COUNTRY_ZONES: Map<string, CountryZone[]> | undefined;
+
+/**
+ * Parses ISO 6709 coordinates such as `+5230+01322` or `-332510+0703954`.
+ */
+function parseCoordinates(value: string): [number, number] {
+	const [latitude, longitude] = (value.match(/[+-]\d+/g) ?? []).map((part) => {
+		const digits = part.slice(1);
+		const degreeDigits = digits.length % 2 === 0 ? 2 : 3;
+		const [degrees, minutes = 0, seconds = 0] = [
+			digits.slice(0, degreeDigits),
+			digits.slice(degreeDigits, degreeDigits + 2),
+			digits.slice(degreeDigits + 2),
+		].map(Number);
+		const sign = part[0] === "-" ? -1 : 1;
+		return sign * (degrees + minutes / 60 + seconds / 3600);
+	});
+	return [latitude, longitude];
+}
+
+function countryZones(country: string): CountryZone[] {
+	if (!COUNTRY_ZONES) {
+		COUNTRY_ZONES = new Map();
+		const table = fs.readFileSync(
+			path.join(import.meta.dirname, "data-files", "zone.tab"),
+			"utf-8",
+		);
+		for (const line of table.split("\n")) {
+			if (!line || line.startsWith("#")) continue;
+			const [code, coordinates, zone] = line.split("\t");
+			const [latitude, longitude] = parseCoordinates(coordinates);
+			const zones = COUNTRY_ZONES.get(code) ?? [];
+			zones.push({ zone, latitude, longitude });
+			COUNTRY_ZONES.set(code, zones);
+		}
+	}
+	return COUNTRY_ZONES.get(country) ?? [];
+}
+
+// UTC offsets of time zones in January and July, in minutes
+const ZONE_OFFSETS = new Map<string, number[]>();
+
+function zoneOffsets(zone: string): number[] {
+	let offsets = ZONE_OFFSETS.get(zone);
+	if (!offsets) {
+		const year = new Date().getUTCFullYear();
+		try {
+			const format = new Intl.DateTimeFormat("en-US", {
+				timeZone: zone,
+				timeZoneName: "longOffset",
+			});
+			offsets = [0, 6].map((month) => {
+				const name =
+					format
+						.formatToParts(new Date(Date.UTC(year, month, 1)))
+						.find((part) => part.type === "timeZoneName")?.value ?? "";
+				const offset = name.match(/^GMT([+-])(\d{2}):(\d{2})$/);
+				if (!offset) return 0;
+				const minutes = Number(offset[2]) * 60 + Number(offset[3]);
+				return offset[1] === "-" ? -minutes : minutes;
+			});
+		} catch {
+			// Unknown to this Node version
+			offsets = [];
+		}
+		ZONE_OFFSETS.set(zone, offsets);
+	}
+	return offsets;
+}
+
+/**
+ * Converts the time zone column to an IANA time zone.
+ * IP2Location gives UTC offsets such as `"-05:00"`, which are resolved to the nearest time zone
+ * of the country with that offset (in winter or summer), or to its nearest time zone otherwise.
+ */
+function toTimezone(
+	value: string,
+	country: string,
+	latitude: number,
+	longitude: number,
+): string | null {
+	if (value.includes("/")) {
+		return value;
+	}
+	const offset = value.match(/^([+-])(\d{2}):(\d{2})$/);
+	if (!offset) {
+		return null;
+	}
+	const minutes =
+		(offset[1] === "-" ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3]));
+
+	const zones = countryZones(country);
+	const matching = zones.filter(({ zone }) =>
+		zoneOffsets(zone).includes(minutes),
+	);
+	const distance = (zone: CountryZone) =>
+		(zone.latitude - latitude) ** 2 + (zone.longitude - longitude) ** 2;
+	let nearest: CountryZone | null = null;
+	for (const zone of matching.length > 0 ? matching : zones) {
+		if (!nearest || distance(zone) < distance(nearest)) {
+			nearest = zone;
+		}
+	}
+	return nearest?.zone ?? null;
+}
+
+/**
+ * Reads an IP2Location-style CSV file, with one IP range per line.
+ *
+ * Columns default to the IP2Location DB11 layout. `ip_from` and `ip_to` may be numbers or addresses,
+ * and IPv4 addresses are also looked up as IPv4-mapped IPv6 addresses, as in the IPv6 files.
+ * UTC offsets in the time zone column are resolved to the IANA time zones of the countries.
+ * The whole file is loaded in memory on the first lookup.
+ */
+export class CSVGeoIPProvider implements GeoIPProvider {
+	private ranges?: CSVRange[];
+	private readonly columns: CSVGeoIPColumns;
+
+	constructor(
+		readonly path: string,
+		columns: Partial<CSVGeoIPColumns> = {},
+	) {
+		this.columns = { ...IP2LOCATION_COLUMNS, ...columns };
+	}
+
+	private load(): CSVRange[] {
+		if (!fs.existsSync(this.path)) {
+			throw new FileNotFoundError(`GeoIP database not found: ${this.path}`);
+		}
+		const ranges: CSVRange[] = [];
+
+		for (const line of fs.readFileSync(this.path, "utf-8").split(/\r?\n/)) {
+			if (!line.trim()) continue;
+			const fields = splitCSVLine(line);
+			const parse = (value: string) =>
+				/^\d+$/.test(value) ? BigInt(value) : ipToNumber(value);
+
+			let from: bigint;
+			let to: bigint;
+			try {
+				from = parse(fields[this.columns.ip_from]);
+				to = parse(fields[this.columns.ip_to]);
+			} catch {
+				// Header line
+				if (ranges.length === 0) continue;
+				throw new InvalidGeoIPDatabase(
+					`Invalid IP range in ${this.path}: ${line}`,
+				);
+			}
+
+			const country = fields[this.columns.country]?.toUpperCase() ?? "";
+			// Unallocated ranges are marked with "-"
+			if (!/^[A-Z]{2}$/.test(country)) continue;
+			const latitude = Number(fields[this.columns.latitude]);
+			const longitude = Number(fields[this.columns.longitude]);
+			const timezone = toTimezone(
+				fields[this.columns.timezone] ?? "",
+				country,
+				latitude,
+				longitude,
+			);
+			if (!timezone) continue;
+			ranges.push({
+				from,
+				to,
+				record: { country, latitude, longitude, timezone },
+			});
+		}
+
+		return ranges.sort((a, b) => (a.from < b.from ? -1 : 1));
+	}
+
+	private find(value: bigint): GeoIPRecord | null {
+		this.ranges ??= this.load();
+		let low = 0;
+		let high = this.ranges.length - 1;
+		while (low <= high) {
+			const middle = (low + high) >> 1;
+			const range = this.ranges[middle];
+			if (value < range.from) {
+				high = middle - 1;
+			} else if (value > range.to) {
+				low = middle + 1;
+			} else {
+				return range.record;
+			}
+		}
+		return null;
+	}
+
+	lookup(ip: string): GeoIPRecord | null {
+		const value = ipToNumber(ip);
+		if (isIPv4(ip)) {
+			return this.find(value) ?? this.find(0xffff00000000n + value);
+		}
+		return this.find(value);
+	}
+}
+
+/**
+ * Fixed locations for IP addresses or CIDR ranges (e.g. `"10.0.0.0/8"`), checked in order.
+ * Other IPs are looked up with `fallback`, if given.
+ *
+ * ```ts
+ * const geoip = new StaticGeoIPProvider(
+ *     { "10.0.0.0/8": { country: "DE", latitude: 52.52, longitude: 13.4, timezone: "Europe/Berlin" } },
+ *     new MMDBGeoIPProvider("/srv/geoip/GeoIP2-City.mmdb"),
+ * );
+ * ```
+ */
+export class StaticGeoIPProvider implements GeoIPProvider {
+	private readonly entries: { list: BlockList; record: GeoIPRecord }[];
+
+	constructor(
+		table: Record<string, GeoIPRecord>,
+		private readonly fallback?: GeoIPProvider,
+	) {
+		this.entries = Object.entries(table).map(([key, record]) => {
+			const [address, prefix] = key.split("/");
+			const type = isIPv6(address) ? "ipv6" : "ipv4";
+			const list = new BlockList();
+			if (prefix === undefined) {
+				list.addAddress(address, type);
+			} else {
+				list.addSubnet(address, Number(prefix), type);
+			}
+			return { list, record };
+		});
+	}
+
+	async lookup(ip: string): Promise<GeoIPRecord | null> {
+		const type = isIPv6(ip) ? "ipv6" : "ipv4";
+		const entry = this.entries.find(({ list }) => list.check(ip, type));
+		if (entry) {
+			return entry.record;
+		}
+		return (await this.fallback?.lookup(ip)) ?? null;
+	}
+}
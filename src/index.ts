@@ -5,12 +5,77 @@ export {
 	downloadAndExtract,
 	maybeDownloadAddons,
 } from "./addons.js";
+export {
+	CamoufoxPool,
+	type CamoufoxPoolOptions,
+	type PooledBrowser,
+} from "./camoufox_pool.js";
+export { InvalidProxy, type InvalidProxyReason } from "./exceptions.js";
+export {
+	FingerprintPool,
+	type FingerprintPoolOptions,
+	type PooledFingerprint,
+} from "./fingerprint_pool.js";
 export {
 	type CamoufoxPaths,
 	getDefaultInstallationDirectory,
 	getDefaultExecutableNames,
 	getDefaultDataDirectory,
 } from "./pkgman.js";
-export { launchServer } from "./server.js";
-export { Camoufox, NewBrowser } from "./sync_api.js";
+export {
+	type ExportProfileOptions,
+	exportProfile,
+	type FingerprintProfile,
+	importProfile,
+	type ProfileDocument,
+} from "./profile.js";
+export {
+	CSVGeoIPProvider,
+	type CSVGeoIPColumns,
+	type GeoIPProvider,
+	type GeoIPRecord,
+	isGeoIPProvider,
+	MMDBGeoIPProvider,
+	StaticGeoIPProvider,
+} from "./geoip.js";
+export {
+	type CamoufoxGateway,
+	type GatewayOptions,
+	launchGateway,
+} from "./gateway.js";
+export type { ServerMetrics } from "./metrics.js";
+export {
+	checkProxy,
+	type ProxyCheckOptions,
+	type ProxyCheckResult,
+} from "./proxy_check.js";
+export {
+	newProxyContext,
+	type ProxyContextOptions,
+	proxyContextOptions,
+} from "./proxy_context.js";
+export {
+	isProxyProvider,
+	type ProxyInput,
+	type ProxyListOptions,
+	ProxyListProvider,
+	type ProxyProvider,
+} from "./proxy_provider.js";
+export {
+	type AccessLogEntry,
+	type CamoufoxServer,
+	type LaunchServerOptions,
+	launchServer,
+	type ServerAccessOptions,
+} from "./server.js";
+export { Camoufox, type CamoufoxHandle, NewBrowser } from "./sync_api.js";
 export { type LaunchOptions, launchOptions } from "./utils.js";
+export { LiveView, type LiveViewOptions } from "./liveview.js";
+export { DisplayRecorder, type RecorderOptions } from "./recorder.js";
+export {
+	VirtualDisplay,
+	type VirtualDisplayLease,
+	VirtualDisplayPool,
+	type VirtualDisplayPoolOptions,
+	type VirtualDisplayScreen,
+} from "./virtdisplay.js";
@@ -1,7 +1,5 @@
 import { Impit } from "impit";
-
-export class InvalidIP extends Error {}
-export class InvalidProxy extends Error {}
+import { InvalidIP, InvalidProxy } from "./exceptions.js";
 
 export interface Proxy {
 	server: string;
@@ -10,44 +8,93 @@ export interface Proxy {
 	bypass?: string;
 }
 
+// Proxy schemes supported by Firefox
+export const PROXY_SCHEMES = ["http", "https", "socks4", "socks5", "socks5h"];
+
 export class ProxyHelper {
+	/**
+	 * Parses a proxy server such as `socks5://user:p%40ss@[::1]:1080` or `127.0.0.1:8080`.
+	 * The scheme defaults to `http`, and credentials are percent-decoded.
+	 */
 	static parseServer(server: string): {
 		schema: string;
-		url: string;
+		host: string;
 		port?: string;
+		username?: string;
+		password?: string;
 	} {
-		const proxyMatch = server.match(/^(?:(\w+):\/\/)?(.*?)(?::(\d+))?$/);
-		if (!proxyMatch) {
-			throw new InvalidProxy(`Invalid proxy server: ${server}`);
-		}
+		const url = ProxyHelper.toURL(server);
 		return {
-			schema: proxyMatch[1] || "http",
-			url: proxyMatch[2],
-			port: proxyMatch[3],
+			schema: url.protocol.slice(0, -1),
+			host: url.hostname.replace(/^\[(.*)\]$/, "$1"),
+			port: url.port || undefined,
+			username: url.username ? decodeURIComponent(url.username) : undefined,
+			password: url.password ? decodeURIComponent(url.password) : undefined,
 		};
 	}
 
-	static asString(proxy: Proxy): string {
-		const { schema, url, port } = ProxyHelper.parseServer(proxy.server);
-		let result = `${schema}://`;
-		if (proxy.username) {
-			result += proxy.username;
-			if (proxy.password) {
-				result += `:${proxy.password}`;
-			}
-			result += "@";
+	/**
+	 * Converts a proxy to a URL. `username` and `password` take precedence over
+	 * credentials embedded in `server`.
+	 */
+	static toURL(proxy: Proxy | string): URL {
+		const server = (typeof proxy === "string" ? proxy : proxy.server).trim();
+
+		let url: URL;
+		try {
+			// "127.0.0.1:8080" and "localhost:8080" would not parse, or parse as a scheme
+			url = new URL(
+				/^[a-z][a-z0-9+.-]*:\/\//i.test(server) ? server : `http://${server}`,
+			);
+		} catch (error) {
+			throw new InvalidProxy(`Invalid proxy server: ${server}`, undefined, {
+				cause: error,
+			});
+		}
+
+		const schema = url.protocol.slice(0, -1);
+		if (!PROXY_SCHEMES.includes(schema)) {
+			throw new InvalidProxy(
+				`Unsupported proxy scheme "${schema}". Use one of: ${PROXY_SCHEMES.join(", ")}.`,
+			);
+		}
+		if (!url.hostname) {
+			throw new InvalidProxy(`Invalid proxy server: ${server}`);
 		}
-		result += url;
-		if (port) {
-			result += `:${port}`;
+
+		if (typeof proxy !== "string") {
+			if (proxy.username) url.username = proxy.username;
+			if (proxy.password) url.password = proxy.password;
 		}
-		return result;
+		return url;
+	}
+
+	/**
+	 * Formats a proxy as a single URL, including its credentials.
+	 * Parsing the result with `toURL` or `parseServer` gives the same proxy back.
+	 */
+	static asString(proxy: Proxy | string): string {
+		const url = ProxyHelper.toURL(proxy);
+		return url.pathname === "/" ? url.href.slice(0, -1) : url.href;
 	}
 
-	static asAxiosProxy(proxyString: string): { [key: string]: string } {
+	/**
+	 * Converts a proxy to the format Playwright expects, with the credentials kept apart from the server.
+	 */
+	static asPlaywrightProxy(proxy: Proxy | string): Proxy {
+		const { schema, host, port, username, password } = ProxyHelper.parseServer(
+			ProxyHelper.asString(proxy),
+		);
+		const hostname = host.includes(":") ? `[${host}]` : host;
+		// Playwright sets up schemes other than socks5 and socks4 as HTTP proxies,
+		// and has no default port for socks proxies
+		const socks = schema.startsWith("socks");
+		const server = `${schema === "socks5h" ? "socks5" : schema}://${hostname}`;
 		return {
-			http: proxyString,
-			https: proxyString,
+			server: port || socks ? `${server}:${port ?? 1080}` : server,
+			username,
+			password,
+			bypass: typeof proxy === "string" ? undefined : proxy.bypass,
 		};
 	}
 }
@@ -105,6 +152,7 @@ export async function publicIP(proxy?: string): Promise<string> {
 				console.warn(
 					new InvalidProxy(
 						`camoufox-js(warn): Failed to fetch public proxy IP from ${url}, retrying with another URL...`,
+						undefined,
 						{ cause: error },
 					),
 				);
@@ -0,0 +1,252 @@
+import { type ChildProcess, execFileSync, spawn } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { connect, createServer } from "node:net";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { LiveViewFailed } from "./exceptions.js";
+
+// How long the VNC server may take to accept connections, in milliseconds
+const LIVE_VIEW_STARTUP_TIMEOUT = 10e3;
+
+export interface LiveViewOptions {
+	/** Port of the VNC server. Defaults to the first free port from 5900. */
+	port?: number;
+	/** Password required to connect. By default, no password is required. */
+	password?: string;
+	/** Only accept connections from this machine. Defaults to `true`. Requires a `password` when `false`. */
+	localhost?: boolean;
+	/** Also serve noVNC (through websockify) on this port, to watch from a web browser. */
+	webPort?: number;
+	/** Directory containing the noVNC web files. Defaults to `/usr/share/novnc`. */
+	novncPath?: string;
+}
+
+function which(command: string): string {
+	try {
+		return execFileSync("which", [command]).toString().trim();
+	} catch {
+		throw new LiveViewFailed(`Please install ${command} to use the live view.`);
+	}
+}
+
+/**
+ * Throws if something already listens on the port, e.g. the VNC server of another live view.
+ */
+async function assertPortFree(port: number, name: string): Promise<void> {
+	const server = createServer();
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", () =>
+			reject(new LiveViewFailed(`Port ${port} for ${name} is already in use.`)),
+		);
+		server.listen(port, () => server.close(() => resolve()));
+	});
+}
+
+/**
+ * Resolves once the process prints the port it listens on (x11vnc's `PORT=5901`).
+ */
+function readPort(proc: ChildProcess, name: string): Promise<number> {
+	return new Promise<number>((resolve, reject) => {
+		let output = "";
+		const timer = setTimeout(
+			() =>
+				fail(
+					new LiveViewFailed(
+						`${name} did not report its port within ${LIVE_VIEW_STARTUP_TIMEOUT}ms.`,
+					),
+				),
+			LIVE_VIEW_STARTUP_TIMEOUT,
+		);
+		const onData = (chunk: Buffer) => {
+			output = (output + chunk.toString()).slice(-4096);
+			const port = output.match(/^PORT=(\d+)$/m)?.[1];
+			if (port) {
+				cleanup();
+				resolve(Number(port));
+			}
+		};
+		const onExit = () =>
+			fail(new LiveViewFailed(`${name} exited before listening.`));
+		const onError = (error: Error) =>
+			fail(new LiveViewFailed(`${name} failed to start: ${error.message}`));
+		const cleanup = () => {
+			clearTimeout(timer);
+			proc.stdout?.off("data", onData);
+			proc.off("exit", onExit);
+			proc.off("error", onError);
+		};
+		const fail = (error: Error) => {
+			cleanup();
+			reject(error);
+		};
+
+		proc.stdout?.on("data", onData);
+		proc.once("exit", onExit);
+		proc.once("error", onError);
+	});
+}
+
+/**
+ * Resolves once the process listens on the port, or rejects if it exits or fails first.
+ */
+async function waitForPort(
+	proc: ChildProcess,
+	port: number,
+	name: string,
+): Promise<void> {
+	let failure: Error | undefined;
+	proc.once("error", (error) => {
+		failure = error;
+	});
+
+	const deadline = Date.now() + LIVE_VIEW_STARTUP_TIMEOUT;
+	while (true) {
+		if (failure) {
+			throw new LiveViewFailed(`${name} failed to start: ${failure.message}`);
+		}
+		if (proc.exitCode !== null || proc.signalCode !== null) {
+			throw new LiveViewFailed(`${name} exited before listening on ${port}.`);
+		}
+		const listening = await new Promise<boolean>((resolve) => {
+			const socket = connect(port, "127.0.0.1");
+			socket.once("connect", () => {
+				socket.destroy();
+				resolve(true);
+			});
+			socket.once("error", () => resolve(false));
+		});
+		if (listening) return;
+		if (Date.now() > deadline) {
+			throw new LiveViewFailed(
+				`${name} did not listen on ${port} within ${LIVE_VIEW_STARTUP_TIMEOUT}ms.`,
+			);
+		}
+		await sleep(100);
+	}
+}
+
+/**
+ * A VNC server (x11vnc) attached to an X display, optionally served through noVNC.
+ */
+export class LiveView {
+	private readonly options: LiveViewOptions;
+	private readonly debug: boolean;
+	private procs: ChildProcess[] = [];
+	private passwordDir: string | null = null;
+	private _url: string | null = null;
+
+	constructor(options: LiveViewOptions = {}, debug: boolean = false) {
+		this.options = options;
+		this.debug = debug;
+	}
+
+	/**
+	 * URL to connect to, once started.
+	 */
+	get url(): string | null {
+		return this._url;
+	}
+
+	private spawn(command: string, args: string[]): ChildProcess {
+		if (this.debug) {
+			console.log("Starting live view:", [command, ...args].join(" "));
+		}
+		// stdout is read for the port x11vnc reports
+		const proc = spawn(which(command), args, {
+			stdio: ["ignore", "pipe", this.debug ? "inherit" : "ignore"],
+		});
+		proc.stdout?.on("data", (chunk: Buffer) => {
+			if (this.debug) process.stdout.write(chunk);
+		});
+		proc.on("error", (error) => {
+			if (this.debug) console.error("Live view:", error);
+		});
+		this.procs.push(proc);
+		return proc;
+	}
+
+	/**
+	 * Writes the password to a file only readable by this user, so that it does not show up in `ps`.
+	 */
+	private writePasswordFile(password: string): string {
+		this.passwordDir = mkdtempSync(join(tmpdir(), "camoufox-vnc-"));
+		const file = join(this.passwordDir, "passwd");
+		writeFileSync(file, `${password}\n`, { mode: 0o600 });
+		return file;
+	}
+
+	/**
+	 * Starts the VNC server on the display and resolves with the connection URL.
+	 * Without a `port`, the first free port from 5900 is used.
+	 */
+	async start(display: string): Promise<string> {
+		const {
+			port,
+			password,
+			localhost = true,
+			webPort,
+			novncPath = "/usr/share/novnc",
+		} = this.options;
+		const host = localhost ? "localhost" : hostname();
+		if (!localhost && !password) {
+			throw new LiveViewFailed(
+				"A password is required to serve the live view beyond this machine.",
+			);
+		}
+
+		try {
+			const args = ["-display", display, "-forever", "-shared"];
+			if (port === undefined) {
+				args.push("-autoport", "5900");
+			} else {
+				await assertPortFree(port, "x11vnc");
+				args.push("-rfbport", port.toString());
+			}
+			if (localhost) args.push("-localhost");
+			if (password) {
+				// x11vnc deletes the file once read
+				args.push("-passwdfile", `rm:${this.writePasswordFile(password)}`);
+			} else {
+				args.push("-nopw");
+			}
+			const x11vnc = this.spawn("x11vnc", args);
+			const vncPort = await readPort(x11vnc, "x11vnc");
+			await waitForPort(x11vnc, vncPort, "x11vnc");
+			this._url = `vnc://${host}:${vncPort}`;
+
+			if (webPort !== undefined) {
+				await assertPortFree(webPort, "websockify");
+				const websockify = this.spawn("websockify", [
+					"--web",
+					novncPath,
+					`${localhost ? "localhost:" : ""}${webPort}`,
+					`localhost:${vncPort}`,
+				]);
+				await waitForPort(websockify, webPort, "websockify");
+				this._url = `http://${host}:${webPort}/vnc.html?host=${host}&port=${webPort}`;
+			}
+		} catch (error) {
+			this.stop();
+			throw error;
+		}
+
+		return this._url;
+	}
+
+	/**
+	 * Stops the VNC server.
+	 */
+	stop(): void {
+		for (const proc of this.procs.splice(0)) {
+			if (!proc.killed) {
+				proc.kill();
+			}
+		}
+		if (this.passwordDir) {
+			rmSync(this.passwordDir, { recursive: true, force: true });
+			this.passwordDir = null;
+		}
+		this._url = null;
+	}
+}
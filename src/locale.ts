@@ -1,7 +1,6 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import tags from "language-tags";
-import maxmind, { type CityResponse } from "maxmind";
 import xml2js from "xml2js";
 import {
 	InvalidLocale,
@@ -11,8 +10,10 @@ import {
 	UnknownLanguage,
 	UnknownTerritory,
 } from "./exceptions.js";
+import { closeMMDB, type GeoIPProvider, MMDBGeoIPProvider } from "./geoip.js";
 import { validateIP } from "./ip.js";
 import { GitHubDownloader, INSTALLATION_DIRECTORY, webdl } from "./pkgman.js";
+import type { RandomSource } from "./random.js";
 import { getAsBooleanFromENV } from "./utils.js";
 import { LeakWarning } from "./warnings.js";
 
@@ -95,13 +96,14 @@ export function normalizeLocale(locale: string): Locale {
 export function handleLocale(
 	locale: string,
 	ignoreRegion: boolean = false,
+	random: RandomSource = Math.random,
 ): Locale {
 	if (locale.length > 3) {
 		return normalizeLocale(locale);
 	}
 
 	try {
-		return SELECTOR.fromRegion(locale);
+		return SELECTOR.fromRegion(locale, random);
 	} catch (e) {
 		if (e instanceof UnknownTerritory) {
 		} else {
@@ -115,7 +117,7 @@ export function handleLocale(
 	}
 
 	try {
-		const language = SELECTOR.fromLanguage(locale);
+		const language = SELECTOR.fromLanguage(locale, random);
 		LeakWarning.warn("no_region");
 		return language;
 	} catch (e) {
@@ -131,12 +133,13 @@ export function handleLocale(
 export function handleLocales(
 	locales: string | string[],
 	config: Record<string, any>,
+	random: RandomSource = Math.random,
 ): void {
 	if (typeof locales === "string") {
 		locales = locales.split(",").map((loc) => loc.trim());
 	}
 
-	const intlLocale = handleLocale(locales[0]).asConfig();
+	const intlLocale = handleLocale(locales[0], false, random).asConfig();
 	for (const key in intlLocale) {
 		config[key] = intlLocale[key];
 	}
@@ -146,7 +149,7 @@ export function handleLocales(
 	}
 
 	config["locale:all"] = joinUnique(
-		locales.map((locale) => handleLocale(locale, true).asString()),
+		locales.map((locale) => handleLocale(locale, true, random).asString()),
 	);
 }
 
@@ -191,8 +194,21 @@ export async function downloadMMDB(): Promise<void> {
 
 	const assetUrl = await new MaxMindDownloader(MMDB_REPO).getAsset();
 
-	const fileStream = fs.createWriteStream(MMDB_FILE);
-	await webdl(assetUrl, "Downloading GeoIP database", true, fileStream);
+	// Renamed over the database once complete, so readers never see a partial file
+	const tmpFile = `${MMDB_FILE}.${process.pid}.tmp`;
+	const fileStream = fs.createWriteStream(tmpFile);
+	try {
+		await webdl(assetUrl, "Downloading GeoIP database", true, fileStream);
+		await new Promise<void>((resolve, reject) => {
+			fileStream.once("error", reject);
+			fileStream.end(resolve);
+		});
+		fs.renameSync(tmpFile, MMDB_FILE);
+	} catch (error) {
+		fileStream.destroy();
+		fs.rmSync(tmpFile, { force: true });
+		throw error;
+	}
 }
 
 export function removeMMDB(): void {
@@ -201,39 +217,47 @@ export function removeMMDB(): void {
 		return;
 	}
 
+	closeMMDB(MMDB_FILE);
 	fs.unlinkSync(MMDB_FILE);
 	console.log("GeoIP database removed.");
 }
 
-export async function getGeolocation(ip: string): Promise<Geolocation> {
-	if (!fs.existsSync(MMDB_FILE)) {
-		await downloadMMDB();
-	}
+let mmdbDownload: Promise<void> | undefined;
 
+export async function getGeolocation(
+	ip: string,
+	random: RandomSource = Math.random,
+	provider?: GeoIPProvider,
+): Promise<Geolocation> {
 	validateIP(ip);
 
-	const reader = await maxmind.open<CityResponse>(MMDB_FILE);
-
-	const resp = reader.get(ip)!;
-	const isoCode = resp.country?.iso_code.toUpperCase();
-	const location = resp.location;
+	// Without a provider, the GeoLite2 database is downloaded on first use
+	if (!provider) {
+		if (!fs.existsSync(MMDB_FILE)) {
+			// Concurrent launches share a single download
+			mmdbDownload ??= downloadMMDB().finally(() => {
+				mmdbDownload = undefined;
+			});
+			await mmdbDownload;
+		}
+		provider = new MMDBGeoIPProvider(MMDB_FILE);
+	}
 
-	if (
-		!location?.longitude ||
-		!location?.latitude ||
-		!location?.time_zone ||
-		!isoCode
-	) {
+	const record = await provider.lookup(ip);
+	if (!record) {
 		throw new UnknownIPLocation(`Unknown IP location: ${ip}`);
 	}
 
-	const locale = SELECTOR.fromRegion(isoCode);
+	// Providers may answer before the territory data is loaded
+	await SELECTOR.ready;
+	const locale = SELECTOR.fromRegion(record.country, random);
 
 	return new Geolocation(
 		locale,
-		location.longitude,
-		location.latitude,
-		location.time_zone,
+		record.longitude,
+		record.latitude,
+		record.timezone,
+		record.accuracy,
 	);
 }
 
@@ -251,9 +275,11 @@ function asFloat(element: any, attr: string): number {
 
 class StatisticalLocaleSelector {
 	private root: any;
+	/** Resolves once the territory data is loaded. */
+	readonly ready: Promise<void>;
 
 	constructor() {
-		this.loadUnicodeInfo();
+		this.ready = this.loadUnicodeInfo();
 	}
 
 	private async loadUnicodeInfo() {
@@ -327,7 +353,11 @@ class StatisticalLocaleSelector {
 		return [languages, freq.map((f) => f / total)];
 	}
 
-	private weightedRandomChoice<T>(items: T[], weights: number[]): T {
+	private weightedRandomChoice<T>(
+		items: T[],
+		weights: number[],
+		random: RandomSource,
+	): T {
 		if (items.length === 0) {
 			throw new Error("items must not be empty");
 		}
@@ -345,10 +375,10 @@ class StatisticalLocaleSelector {
 
 		// Fallback to uniform choice if all weights are zero
 		if (total === 0) {
-			return items[Math.floor(Math.random() * items.length)];
+			return items[Math.floor(random() * items.length)];
 		}
 
-		const r = Math.random() * total;
+		const r = random() * total;
 		let acc = 0;
 
 		for (let i = 0; i < items.length; i++) {
@@ -362,18 +392,19 @@ class StatisticalLocaleSelector {
 		return items[items.length - 1];
 	}
 
-	fromRegion(region: string): Locale {
+	fromRegion(region: string, random: RandomSource = Math.random): Locale {
 		const [languages, probabilities] = this.loadTerritoryData(region);
 		const language = this.weightedRandomChoice(
 			languages,
 			probabilities,
+			random,
 		).replace("_", "-");
 		return normalizeLocale(`${language}-${region}`);
 	}
 
-	fromLanguage(language: string): Locale {
+	fromLanguage(language: string, random: RandomSource = Math.random): Locale {
 		const [regions, probabilities] = this.loadLanguageData(language);
-		const region = this.weightedRandomChoice(regions, probabilities);
+		const region = this.weightedRandomChoice(regions, probabilities, random);
 		return normalizeLocale(`${language}-${region}`);
 	}
 }
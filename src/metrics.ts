@@ -0,0 +1,343 @@
+import { readFileSync } from "node:fs";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+// Playwright protocol objects counted by the metrics
+const TRACKED_TYPES = ["BrowserContext", "Page"] as const;
+
+interface ProtocolObject {
+	type: string;
+	parent: string;
+}
+
+/**
+ * Follows the Playwright protocol messages a browser server sends to one client,
+ * to know which contexts and pages the client has open.
+ *
+ * Compressed frames are not understood, so the proxy must not negotiate `permessage-deflate`.
+ */
+export class ProtocolTracker {
+	// Received data not parsed yet, only concatenated once a whole frame is there
+	private chunks: Buffer[] = [];
+	private buffered = 0;
+	// Whether the HTTP 101 response in front of the frames was skipped
+	private upgraded = false;
+	private fragments: Buffer[] = [];
+	private readonly objects = new Map<string, ProtocolObject>();
+
+	/**
+	 * Removes and returns the first `length` buffered bytes.
+	 */
+	private take(length: number): Buffer {
+		const taken: Buffer[] = [];
+		let remaining = length;
+		while (remaining > 0) {
+			const chunk = this.chunks[0];
+			if (chunk.length <= remaining) {
+				taken.push(chunk);
+				this.chunks.shift();
+				remaining -= chunk.length;
+			} else {
+				taken.push(chunk.subarray(0, remaining));
+				this.chunks[0] = chunk.subarray(remaining);
+				remaining = 0;
+			}
+		}
+		this.buffered -= length;
+		return taken.length === 1 ? taken[0] : Buffer.concat(taken);
+	}
+
+	/**
+	 * Returns up to the first `length` buffered bytes, without removing them.
+	 */
+	private peek(length: number): Buffer {
+		let size = 0;
+		let count = 0;
+		while (size < length && count < this.chunks.length) {
+			size += this.chunks[count++].length;
+		}
+		if (count > 1) {
+			this.chunks.splice(0, count, Buffer.concat(this.chunks.slice(0, count)));
+		}
+		return this.chunks[0].subarray(0, length);
+	}
+
+	/**
+	 * Feeds data sent by the browser server: the HTTP upgrade response, then unmasked WebSocket frames.
+	 */
+	push(chunk: Buffer): void {
+		this.chunks.push(chunk);
+		this.buffered += chunk.length;
+
+		if (!this.upgraded) {
+			const data = this.peek(this.buffered);
+			const end = data.indexOf("\r\n\r\n");
+			if (end === -1) return;
+			this.take(end + 4);
+			this.upgraded = true;
+		}
+
+		while (this.buffered >= 2) {
+			// The longest header: 2 bytes, a 64-bit length and a mask
+			const header = this.peek(14);
+			const fin = (header[0] & 0x80) !== 0;
+			const opcode = header[0] & 0x0f;
+			const masked = (header[1] & 0x80) !== 0;
+			let length = header[1] & 0x7f;
+			let offset = 2;
+
+			if (length === 126) {
+				if (header.length < 4) return;
+				length = header.readUInt16BE(2);
+				offset = 4;
+			} else if (length === 127) {
+				if (header.length < 10) return;
+				length = Number(header.readBigUInt64BE(2));
+				offset = 10;
+			}
+			const maskOffset = offset;
+			if (masked) offset += 4;
+			if (this.buffered < offset + length) return;
+
+			const frame = this.take(offset + length);
+			const payload = Buffer.from(frame.subarray(offset));
+			if (masked) {
+				for (let i = 0; i < payload.length; i++) {
+					payload[i] ^= frame[maskOffset + (i % 4)];
+				}
+			}
+
+			// Text frames and their continuations, control frames are skipped
+			if (opcode === 0x1 || opcode === 0x0) {
+				this.fragments.push(payload);
+				if (fin) {
+					this.onMessage(Buffer.concat(this.fragments).toString());
+					this.fragments = [];
+				}
+			}
+		}
+	}
+
+	private onMessage(text: string): void {
+		let message: { guid?: string; method?: string; params?: any };
+		try {
+			message = JSON.parse(text);
+		} catch {
+			return;
+		}
+		const { guid, method, params } = message;
+
+		if (method === "__create__" && params?.guid) {
+			this.objects.set(params.guid, { type: params.type, parent: guid ?? "" });
+		} else if (method === "__dispose__" && guid) {
+			this.dispose(guid);
+		} else if (
+			method === "close" &&
+			guid &&
+			this.objects.get(guid)?.type === "Page"
+		) {
+			this.dispose(guid);
+		}
+	}
+
+	/**
+	 * Forgets an object and everything created under it.
+	 */
+	private dispose(guid: string): void {
+		this.objects.delete(guid);
+		for (const [child, object] of this.objects) {
+			if (object.parent === guid) {
+				this.dispose(child);
+			}
+		}
+	}
+
+	count(type: (typeof TRACKED_TYPES)[number]): number {
+		let count = 0;
+		for (const object of this.objects.values()) {
+			if (object.type === type) count++;
+		}
+		return count;
+	}
+}
+
+export interface ServerMetrics {
+	/** Whether the browser is running. */
+	alive: boolean;
+	/** Version of the installed Camoufox browser, if known. */
+	version: string | null;
+	/** Seconds since the server started. */
+	uptime_seconds: number;
+	/** Connected Playwright clients. */
+	clients: number;
+	/** Open browser contexts, across all clients. */
+	contexts: number;
+	/** Open pages, across all clients. */
+	pages: number;
+	/** Resident memory of the Node process, in bytes. */
+	memory_rss_bytes: number;
+	/** Resident memory of the browser's main process, in bytes. Only known on Linux. */
+	browser_memory_rss_bytes: number | null;
+}
+
+/**
+ * Collects the numbers reported by the health and metrics endpoints of a server.
+ */
+export class ServerStats {
+	private readonly started = Date.now();
+	private readonly trackers = new Set<ProtocolTracker>();
+	private readonly version: string | null;
+	private readonly browserPid: () => number | undefined;
+
+	constructor(version: string | null, browserPid: () => number | undefined) {
+		this.version = version;
+		this.browserPid = browserPid;
+	}
+
+	/**
+	 * Starts tracking a client, until the returned function is called.
+	 */
+	track(): { tracker: ProtocolTracker; untrack: () => void } {
+		const tracker = new ProtocolTracker();
+		this.trackers.add(tracker);
+		return { tracker, untrack: () => this.trackers.delete(tracker) };
+	}
+
+	/**
+	 * Number of connected clients.
+	 */
+	get clients(): number {
+		return this.trackers.size;
+	}
+
+	private get alive(): boolean {
+		const pid = this.browserPid();
+		if (!pid) return false;
+		try {
+			process.kill(pid, 0);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	private browserMemory(): number | null {
+		try {
+			// Second field of statm is the resident set size, in pages
+			const statm = readFileSync(`/proc/${this.browserPid()}/statm`, "utf-8");
+			return Number(statm.split(" ")[1]) * 4096;
+		} catch {
+			return null;
+		}
+	}
+
+	snapshot(): ServerMetrics {
+		let contexts = 0;
+		let pages = 0;
+		for (const tracker of this.trackers) {
+			contexts += tracker.count("BrowserContext");
+			pages += tracker.count("Page");
+		}
+		return {
+			alive: this.alive,
+			version: this.version,
+			uptime_seconds: (Date.now() - this.started) / 1000,
+			clients: this.clients,
+			contexts,
+			pages,
+			memory_rss_bytes: process.memoryUsage().rss,
+			browser_memory_rss_bytes: this.browserMemory(),
+		};
+	}
+}
+
+/**
+ * Formats metrics in the Prometheus text exposition format.
+ */
+export function toPrometheus(metrics: ServerMetrics): string {
+	const lines: string[] = [];
+	const gauge = (name: string, help: string, value: number | null) => {
+		if (value === null) return;
+		lines.push(
+			`# HELP camoufox_${name} ${help}`,
+			`# TYPE camoufox_${name} gauge`,
+			`camoufox_${name} ${value}`,
+		);
+	};
+
+	lines.push(
+		"# HELP camoufox_info Camoufox version.",
+		"# TYPE camoufox_info gauge",
+		`camoufox_info{version="${metrics.version ?? "unknown"}"} 1`,
+	);
+	gauge("up", "Whether the browser is running.", metrics.alive ? 1 : 0);
+	gauge(
+		"uptime_seconds",
+		"Seconds since the server started.",
+		metrics.uptime_seconds,
+	);
+	gauge("clients", "Connected Playwright clients.", metrics.clients);
+	gauge("contexts", "Open browser contexts.", metrics.contexts);
+	gauge("pages", "Open pages.", metrics.pages);
+	gauge(
+		"memory_rss_bytes",
+		"Resident memory of the Node process.",
+		metrics.memory_rss_bytes,
+	);
+	gauge(
+		"browser_memory_rss_bytes",
+		"Resident memory of the browser's main process.",
+		metrics.browser_memory_rss_bytes,
+	);
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Serves `/health` (liveness), `/ready` (readiness) and `/metrics` (Prometheus, or JSON with `?format=json`).
+ * @returns Whether the request was handled
+ */
+export function handleHealthRequest(
+	req: IncomingMessage,
+	res: ServerResponse,
+	stats: ServerStats,
+	ready: () => boolean = () => true,
+): boolean {
+	const url = new URL(req.url ?? "/", "http://localhost");
+	const json = (status: number, body: unknown) => {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(`${JSON.stringify(body)}\n`);
+	};
+
+	switch (url.pathname) {
+		case "/health": {
+			const metrics = stats.snapshot();
+			json(metrics.alive ? 200 : 503, {
+				status: metrics.alive ? "ok" : "down",
+				version: metrics.version,
+				uptime_seconds: metrics.uptime_seconds,
+			});
+			return true;
+		}
+		case "/ready": {
+			const isReady = stats.snapshot().alive && ready();
+			json(isReady ? 200 : 503, { ready: isReady });
+			return true;
+		}
+		case "/metrics": {
+			const metrics = stats.snapshot();
+			if (
+				url.searchParams.get("format") === "json" ||
+				req.headers.accept?.includes("application/json")
+			) {
+				json(200, metrics);
+			} else {
+				res.writeHead(200, {
+					"Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+				});
+				res.end(toPrometheus(metrics));
+			}
+			return true;
+		}
+		default:
+			return false;
+	}
+}
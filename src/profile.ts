@@ -0,0 +1,224 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { LaunchOptions as PlaywrightLaunchOptions } from "playwright-core";
+import { isDefaultAddonPath } from "./addons.js";
+import { InvalidProfile } from "./exceptions.js";
+import { type CamoufoxPaths, installedVerStr } from "./pkgman.js";
+import { configFromEnv, validateConfig } from "./utils.js";
+
+/**
+ * Name of the file storing the fingerprint inside a persistent context's user data directory.
+ */
+export const PROFILE_FILENAME = "camoufox-profile.json";
+
+/**
+ * Config properties describing launch behaviour or the network rather than the device.
+ * These are never stored, so they follow the options (and the proxy) of the current launch.
+ */
+const EXCLUDED_CONFIG_KEYS = [
+	"addons",
+	"humanize",
+	"humanize:maxTime",
+	"allowMainWorld",
+	"showcursor",
+	"webrtc:ipv4",
+	"webrtc:ipv6",
+];
+
+/**
+ * Removes the config properties that are never stored.
+ */
+function deviceConfig(config: Record<string, any>): Record<string, any> {
+	const device = { ...config };
+	for (const key of EXCLUDED_CONFIG_KEYS) {
+		delete device[key];
+	}
+	return device;
+}
+
+/**
+ * Firefox preferences that are part of the generated fingerprint.
+ */
+const FINGERPRINT_PREFS = ["webgl.enable-webgl2"];
+
+/**
+ * A resolved Camoufox fingerprint (device, WebGL pair, fonts, locale, geolocation, canvas offsets...).
+ */
+export interface FingerprintProfile {
+	/** Camoufox config properties. */
+	config: Record<string, any>;
+	/** Firefox user preferences belonging to the fingerprint. */
+	firefoxUserPrefs: Record<string, any>;
+}
+
+/**
+ * Extracts the fingerprint profile from the result of `launchOptions`.
+ */
+export function profileFromLaunchOptions(
+	options: Record<string, any>,
+): FingerprintProfile | undefined {
+	const config = configFromEnv(options.env ?? {});
+	if (!config) {
+		return undefined;
+	}
+
+	const firefoxUserPrefs: Record<string, any> = {};
+	for (const pref of FINGERPRINT_PREFS) {
+		if (options.firefoxUserPrefs && pref in options.firefoxUserPrefs) {
+			firefoxUserPrefs[pref] = options.firefoxUserPrefs[pref];
+		}
+	}
+
+	return { config: deviceConfig(config), firefoxUserPrefs };
+}
+
+/**
+ * Loads the fingerprint profile stored in a user data directory, if there is one.
+ */
+export function loadProfile(
+	userDataDir: string,
+): FingerprintProfile | undefined {
+	const profilePath = path.join(userDataDir, PROFILE_FILENAME);
+	if (!fs.existsSync(profilePath)) {
+		return undefined;
+	}
+	let profile: FingerprintProfile;
+	try {
+		profile = JSON.parse(fs.readFileSync(profilePath, "utf-8"));
+	} catch (error) {
+		throw new InvalidProfile(`${profilePath} is not valid JSON: ${error}`);
+	}
+	// Profiles stored by earlier versions may still hold the WebRTC IPs of their last launch
+	return { ...profile, config: deviceConfig(profile.config ?? {}) };
+}
+
+/**
+ * Stores the fingerprint resolved by `launchOptions` in a user data directory.
+ */
+export function saveProfile(
+	userDataDir: string,
+	options: Record<string, any>,
+): void {
+	const profile = profileFromLaunchOptions(options);
+	if (!profile) {
+		return;
+	}
+	fs.mkdirSync(userDataDir, { recursive: true });
+	fs.writeFileSync(
+		path.join(userDataDir, PROFILE_FILENAME),
+		JSON.stringify(profile, null, 2),
+	);
+}
+
+/**
+ * Version of the JSON document written by `exportProfile`.
+ */
+export const PROFILE_FORMAT_VERSION = 1;
+
+/**
+ * A resolved launch config, portable between machines.
+ */
+export interface ProfileDocument extends FingerprintProfile {
+	/** Version of the document format. */
+	formatVersion: number;
+	/** Camoufox version the profile was created with. */
+	camoufoxVersion?: string;
+	/** Addons passed to the browser. */
+	addons: string[];
+	/** Proxy used by the browser. */
+	proxy?: PlaywrightLaunchOptions["proxy"];
+}
+
+export interface ExportProfileOptions {
+	/** Leave the proxy password out of the document. */
+	redactProxy?: boolean;
+	/** Custom paths configuration for Camoufox. */
+	paths?: CamoufoxPaths;
+}
+
+/**
+ * Exports the result of `launchOptions` as a versioned JSON document.
+ */
+export function exportProfile(
+	options: Record<string, any>,
+	{ redactProxy = false, paths }: ExportProfileOptions = {},
+): string {
+	const config = configFromEnv(options.env ?? {});
+	if (!config) {
+		throw new InvalidProfile(
+			"The launch options do not contain a Camoufox config.",
+		);
+	}
+	// Default addons are added by the importing machine, at its own paths and minus its `exclude_addons`
+	const addons = (config.addons ?? []).filter(
+		(addon: string) => !isDefaultAddonPath(addon),
+	);
+
+	let camoufoxVersion: string | undefined;
+	try {
+		camoufoxVersion = installedVerStr(paths);
+	} catch (error) {
+		if (!(error instanceof Error && error.name === "FileNotFoundError")) {
+			throw error;
+		}
+	}
+
+	let proxy: PlaywrightLaunchOptions["proxy"];
+	if (options.proxy) {
+		const { server, username, password, bypass } = options.proxy;
+		proxy = { server };
+		if (username) proxy.username = username;
+		if (password && !redactProxy) proxy.password = password;
+		if (bypass) proxy.bypass = bypass;
+	}
+
+	const document: ProfileDocument = {
+		formatVersion: PROFILE_FORMAT_VERSION,
+		camoufoxVersion,
+		config: deviceConfig(config),
+		firefoxUserPrefs: options.firefoxUserPrefs ?? {},
+		addons,
+		proxy,
+	};
+	return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Imports a document written by `exportProfile`.
+ * The config is validated against the installed Camoufox's properties.
+ *
+ * The result can be passed to `launchOptions` as `profile`.
+ */
+export async function importProfile(
+	json: string | Record<string, any>,
+	paths?: CamoufoxPaths,
+): Promise<ProfileDocument> {
+	let document: Record<string, any>;
+	try {
+		document = typeof json === "string" ? JSON.parse(json) : json;
+	} catch (error) {
+		throw new InvalidProfile(`The profile is not valid JSON: ${error}`);
+	}
+
+	if (document?.formatVersion !== PROFILE_FORMAT_VERSION) {
+		throw new InvalidProfile(
+			`Unsupported profile format version: ${document?.formatVersion}. Expected ${PROFILE_FORMAT_VERSION}.`,
+		);
+	}
+	if (typeof document.config !== "object" || document.config === null) {
+		throw new InvalidProfile("The profile does not contain a config.");
+	}
+
+	await validateConfig(document.config, undefined, paths);
+
+	return {
+		formatVersion: document.formatVersion,
+		camoufoxVersion: document.camoufoxVersion,
+		config: deviceConfig(document.config),
+		firefoxUserPrefs: document.firefoxUserPrefs ?? {},
+		addons: (document.addons ?? []).filter(
+			(addon: string) => !isDefaultAddonPath(addon),
+		),
+		proxy: document.proxy,
+	};
+}
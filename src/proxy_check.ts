@@ -0,0 +1,128 @@
+import { Impit } from "impit";
+import { InvalidProxy, type InvalidProxyReason } from "./exceptions.js";
+import { publicIP, validateIP } from "./ip.js";
+import { getGeolocation } from "./locale.js";
+
+// Plain HTTP echo endpoint, so that headers added by the proxy (X-Forwarded-For, Via...) are visible
+const ECHO_URL = "http://httpbin.org/get";
+
+export interface ProxyCheckOptions {
+	/** How long the request through the proxy may take, in milliseconds. Defaults to 10 seconds. */
+	timeout?: number;
+	/** Fail if the request through the proxy takes longer than this, in milliseconds. */
+	max_latency?: number;
+	/** Fail if the proxy reveals the real IP of this machine. Defaults to `true`. */
+	detect_leaks?: boolean;
+}
+
+export interface ProxyCheckResult {
+	/** IP address websites see when connecting through the proxy. */
+	exitIP: string;
+	/** Time taken by the request through the proxy, in milliseconds. */
+	latency: number;
+}
+
+function classifyError(error: unknown): InvalidProxyReason {
+	const message = error instanceof Error ? error.message : String(error);
+	if (/407|proxy auth/i.test(message)) return "auth-failed";
+	if (/timed? ?out/i.test(message)) return "timeout";
+	return "unreachable";
+}
+
+/**
+ * Splits header values into the IPs they mention, e.g. `for="[2001:db8::1]:4711";proto=http`.
+ */
+function ipTokens(values: string[]): Set<string> {
+	return new Set(
+		values.flatMap((value) =>
+			value.split(/[\s,;]+/).map((token) =>
+				token
+					.replace(/^for=/i, "")
+					.replace(/^"|"$/g, "")
+					.replace(/^\[([^\]]+)\](:\d+)?$/, "$1")
+					.replace(/^(\d+\.\d+\.\d+\.\d+):\d+$/, "$1"),
+			),
+		),
+	);
+}
+
+/**
+ * Sends a request through the proxy to make sure it works before a browser is launched with it.
+ * Checks that the proxy is reachable, accepts the credentials and answers within `max_latency`,
+ * that it does not forward the real IP of this machine, and, if `geoip` is a target IP,
+ * that the proxy exits in the same country.
+ * @throws {InvalidProxy} With a `reason` telling which check failed
+ */
+export async function checkProxy(
+	proxyUrl: string,
+	geoip?: string | boolean,
+	{ timeout = 10e3, max_latency, detect_leaks = true }: ProxyCheckOptions = {},
+): Promise<ProxyCheckResult> {
+	const { host } = new URL(proxyUrl);
+	const fail = (message: string, reason: InvalidProxyReason, cause?: unknown) =>
+		new InvalidProxy(`Proxy ${host}: ${message}`, reason, { cause });
+
+	const started = Date.now();
+	let body: { origin: string; headers: Record<string, string> };
+	try {
+		const response = await new Impit({ proxyUrl, timeout }).fetch(ECHO_URL);
+		if (response.status === 407) {
+			throw fail("the proxy rejected the credentials.", "auth-failed");
+		}
+		if (!response.ok) {
+			throw fail(
+				`the proxy answered with HTTP ${response.status}.`,
+				"unreachable",
+			);
+		}
+		body = await response.json();
+	} catch (error) {
+		if (error instanceof InvalidProxy) throw error;
+		const reason = classifyError(error);
+		throw fail(
+			`the request through the proxy failed (${reason}).`,
+			reason,
+			error,
+		);
+	}
+	const latency = Date.now() - started;
+
+	if (max_latency !== undefined && latency > max_latency) {
+		throw fail(`took ${latency}ms, more than ${max_latency}ms.`, "slow");
+	}
+
+	// Transparent proxies list the client first, e.g. "203.0.113.7, 198.51.100.1"
+	const origins = body.origin.split(",").map((ip) => ip.trim());
+	const exitIP = origins[origins.length - 1];
+	validateIP(exitIP);
+
+	let realIP: string | undefined;
+	if (detect_leaks) {
+		try {
+			realIP = await publicIP();
+		} catch {
+			// Without direct internet access, there is no real IP to leak
+		}
+	}
+	if (realIP) {
+		const forwarded = ipTokens([body.origin, ...Object.values(body.headers)]);
+		if (forwarded.has(realIP)) {
+			throw fail("websites can see the real IP of this machine.", "ip-leak");
+		}
+	}
+
+	if (typeof geoip === "string" && geoip !== exitIP) {
+		const [target, exit] = await Promise.all([
+			getGeolocation(geoip),
+			getGeolocation(exitIP),
+		]);
+		if (target.locale.region !== exit.locale.region) {
+			throw fail(
+				`exits in ${exit.locale.region}, but the geoip target ${geoip} is in ${target.locale.region}.`,
+				"geoip-mismatch",
+			);
+		}
+	}
+
+	return { exitIP, latency };
+}
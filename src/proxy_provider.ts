@@ -0,0 +1,117 @@
+import { readFileSync } from "node:fs";
+import type { LaunchOptions as PlaywrightLaunchOptions } from "playwright-core";
+import { InvalidProxy } from "./exceptions.js";
+
+/**
+ * A single proxy, as a URL string or a Playwright proxy object.
+ */
+export type ProxyInput = string | NonNullable<PlaywrightLaunchOptions["proxy"]>;
+
+/**
+ * Hands out a proxy for every launch. Pass it as `proxy` to rotate proxies between browsers.
+ */
+export interface ProxyProvider {
+	/** Returns the proxy to use for the next launch. */
+	next(): ProxyInput | Promise<ProxyInput>;
+	/** Called when a proxy handed out by `next()` worked. */
+	reportSuccess?(proxy: ProxyInput): void;
+	/** Called when a proxy handed out by `next()` failed. */
+	reportFailure?(proxy: ProxyInput, error?: unknown): void;
+}
+
+export function isProxyProvider(proxy: unknown): proxy is ProxyProvider {
+	return (
+		typeof proxy === "object" &&
+		proxy !== null &&
+		typeof (proxy as ProxyProvider).next === "function"
+	);
+}
+
+export interface ProxyListOptions {
+	/** How proxies are picked. Defaults to `"round-robin"`. */
+	strategy?: "round-robin" | "random";
+	/** Consecutive failures after which a proxy is no longer handed out. Defaults to 3. */
+	max_failures?: number;
+}
+
+interface ProxyEntry {
+	proxy: string;
+	failures: number;
+}
+
+/**
+ * Rotates through a fixed list of proxies, skipping those that keep failing.
+ *
+ * ```ts
+ * const proxies = ProxyListProvider.fromFile("proxies.txt");
+ * const browser = await Camoufox({ proxy: proxies, geoip: true });
+ * ```
+ */
+export class ProxyListProvider implements ProxyProvider {
+	private readonly entries: ProxyEntry[];
+	private readonly strategy: "round-robin" | "random";
+	private readonly maxFailures: number;
+	private cursor = 0;
+
+	constructor(proxies: string[], options: ProxyListOptions = {}) {
+		if (proxies.length === 0) {
+			throw new InvalidProxy("The proxy list is empty.");
+		}
+		this.entries = proxies.map((proxy) => ({ proxy, failures: 0 }));
+		this.strategy = options.strategy ?? "round-robin";
+		this.maxFailures = options.max_failures ?? 3;
+	}
+
+	/**
+	 * Reads a proxy list file, with one proxy URL per line.
+	 * Empty lines and lines starting with `#` are ignored.
+	 */
+	static fromFile(path: string, options?: ProxyListOptions): ProxyListProvider {
+		const proxies = readFileSync(path, "utf-8")
+			.split(/\r?\n/)
+			.map((line) => line.trim())
+			.filter((line) => line && !line.startsWith("#"));
+		return new ProxyListProvider(proxies, options);
+	}
+
+	/**
+	 * Proxies that are still handed out.
+	 */
+	get healthy(): string[] {
+		return this.entries
+			.filter((entry) => entry.failures < this.maxFailures)
+			.map((entry) => entry.proxy);
+	}
+
+	next(): string {
+		const healthy = this.healthy;
+		if (healthy.length === 0) {
+			throw new InvalidProxy("Every proxy in the list failed.");
+		}
+		if (this.strategy === "random") {
+			return healthy[Math.floor(Math.random() * healthy.length)];
+		}
+		const proxy = healthy[this.cursor % healthy.length];
+		this.cursor = (this.cursor + 1) % healthy.length;
+		return proxy;
+	}
+
+	private find(proxy: ProxyInput): ProxyEntry | undefined {
+		const server = typeof proxy === "string" ? proxy : proxy.server;
+		return this.entries.find((entry) => entry.proxy === server);
+	}
+
+	reportSuccess(proxy: ProxyInput): void {
+		const entry = this.find(proxy);
+		if (entry) {
+			entry.failures = 0;
+		}
+	}
+
+	reportFailure(proxy: ProxyInput): void {
+		const entry = this.find(proxy);
+		if (entry) {
+			entry.failures++;
+		}
+	}
+}
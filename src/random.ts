@@ -0,0 +1,89 @@
+/**
+ * A function returning a float in the range [0, 1), like `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a string seed into a 32-bit integer (FNV-1a).
+ */
+function hashSeed(seed: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i++) {
+		hash ^= seed.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic random source (mulberry32) from a seed.
+ * The same seed always produces the same sequence of numbers.
+ */
+export function seededRandom(seed: number | string): RandomSource {
+	let state = typeof seed === "string" ? hashSeed(seed) : seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Returns a random integer between `min` and `max` (both inclusive).
+ */
+export function randrange(
+	min: number,
+	max: number,
+	random: RandomSource = Math.random,
+): number {
+	return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/**
+ * Runs a synchronous function with `Math.random` replaced by the given random source.
+ * Used for third-party code (e.g. BrowserForge) that does not accept a random source.
+ */
+export function withRandom<T>(random: RandomSource, fn: () => T): T {
+	if (random === Math.random) {
+		return fn();
+	}
+	const originalRandom = Math.random;
+	Math.random = random;
+	try {
+		return fn();
+	} finally {
+		Math.random = originalRandom;
+	}
+}
+
+/**
+ * Picks an index with a probability proportional to its weight.
+ * Falls back to a uniform choice if all weights are zero.
+ */
+export function weightedIndex(
+	weights: number[],
+	random: RandomSource = Math.random,
+): number {
+	if (weights.length === 0) {
+		throw new Error("weights must not be empty");
+	}
+
+	const total = weights.reduce((acc, weight) => acc + weight, 0);
+	if (total <= 0) {
+		return Math.floor(random() * weights.length);
+	}
+
+	const threshold = random() * total;
+	let cumulativeSum = 0;
+	for (let i = 0; i < weights.length; i++) {
+		cumulativeSum += weights[i];
+		if (threshold < cumulativeSum) {
+			return i;
+		}
+	}
+
+	// Numerical edge case
+	return weights.length - 1;
+}
@@ -0,0 +1,167 @@
+import { type ChildProcess, execFileSync, spawn } from "node:child_process";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { RecorderFailed } from "./exceptions.js";
+
+// How long ffmpeg may take to finish the file after being asked to stop, in milliseconds
+const RECORDER_STOP_TIMEOUT = 10e3;
+
+export interface RecorderOptions {
+	/** Video file to write, e.g. `"session.mp4"`. The container is picked from the extension. */
+	path?: string;
+	/** Directory to write timed PNG frames to, instead of a video. */
+	framesDir?: string;
+	/** Seconds between two PNG frames. Defaults to 1. */
+	interval?: number;
+	/** Frame rate of the video. Defaults to 15. */
+	fps?: number;
+}
+
+/**
+ * Records an entire X display (including native dialogs and the cursor) with ffmpeg's x11grab.
+ */
+export class DisplayRecorder {
+	private readonly options: RecorderOptions;
+	private readonly debug: boolean;
+	private proc: ChildProcess | null = null;
+	private stderr = "";
+
+	constructor(options: RecorderOptions, debug: boolean = false) {
+		if (!options.path === !options.framesDir) {
+			throw new RecorderFailed(
+				"Pass either `path` (video) or `framesDir` (PNG frames) to the recorder.",
+			);
+		}
+		this.options = options;
+		this.debug = debug;
+	}
+
+	private static get ffmpeg_path(): string {
+		try {
+			return execFileSync("which", ["ffmpeg"]).toString().trim();
+		} catch {
+			throw new RecorderFailed(
+				"Please install ffmpeg to record the virtual display.",
+			);
+		}
+	}
+
+	private output_args(): string[] {
+		const { path: videoPath, framesDir, interval = 1 } = this.options;
+		if (framesDir) {
+			mkdirSync(framesDir, { recursive: true });
+			return [
+				"-vf",
+				`fps=1/${interval}`,
+				path.join(framesDir, "frame-%05d.png"),
+			];
+		}
+		return [
+			"-c:v",
+			"libx264",
+			"-preset",
+			"ultrafast",
+			"-pix_fmt",
+			"yuv420p",
+			videoPath as string,
+		];
+	}
+
+	/**
+	 * Starts recording the display.
+	 */
+	async start(
+		display: string,
+		screen: { width: number; height: number },
+	): Promise<void> {
+		if (this.proc) return;
+
+		const args = [
+			"-y",
+			"-f",
+			"x11grab",
+			"-draw_mouse",
+			"1",
+			"-framerate",
+			(this.options.fps ?? 15).toString(),
+			// x11grab requires even dimensions for most codecs
+			"-video_size",
+			`${screen.width - (screen.width % 2)}x${screen.height - (screen.height % 2)}`,
+			"-i",
+			display,
+			...this.output_args(),
+		];
+		if (this.debug) {
+			console.log("Starting recorder: ffmpeg", args.join(" "));
+		}
+
+		const proc = spawn(DisplayRecorder.ffmpeg_path, args, {
+			stdio: ["pipe", "ignore", "pipe"],
+		});
+		this.proc = proc;
+		let failure: Error | undefined;
+		proc.on("error", (error) => {
+			failure = error;
+		});
+		// ffmpeg may already be gone when asked to stop
+		proc.stdin?.on("error", () => {});
+		proc.stderr?.on("data", (chunk: Buffer) => {
+			// Only keep the end of the log, ffmpeg reports progress continuously
+			this.stderr = (this.stderr + chunk.toString()).slice(-4096);
+		});
+
+		// Fail early if ffmpeg cannot grab the display
+		await sleep(500);
+		if (failure) {
+			this.proc = null;
+			throw new RecorderFailed(`ffmpeg failed to start: ${failure.message}`);
+		}
+		if (proc.exitCode !== null) {
+			this.proc = null;
+			throw new RecorderFailed(
+				`ffmpeg exited with code ${proc.exitCode}:\n${this.stderr.trim()}`,
+			);
+		}
+	}
+
+	/**
+	 * Asks ffmpeg to finish the recording, without waiting for it.
+	 */
+	requestStop(): void {
+		if (this.proc && this.proc.exitCode === null && !this.proc.killed) {
+			this.proc.stdin?.end("q");
+		}
+	}
+
+	/**
+	 * Stops recording and waits until the file is complete.
+	 */
+	async stop(): Promise<void> {
+		const proc = this.proc;
+		if (!proc) return;
+		this.proc = null;
+
+		if (proc.exitCode !== null || proc.signalCode !== null) return;
+
+		const exited = new Promise<void>((resolve) => {
+			proc.once("exit", () => resolve());
+			proc.once("error", () => resolve());
+		});
+		proc.stdin?.end("q");
+		// The timer is cancelled once ffmpeg exits, so it does not keep Node alive
+		const cancel = new AbortController();
+		const timeout = sleep(RECORDER_STOP_TIMEOUT, undefined, {
+			signal: cancel.signal,
+		}).then(
+			() => {
+				if (proc.exitCode === null) {
+					proc.kill("SIGKILL");
+				}
+			},
+			() => {},
+		);
+		await Promise.race([exited, timeout]);
+		cancel.abort();
+	}
+}
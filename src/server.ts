@@ -1,21 +1,371 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, Server } from "node:http";
+import { BlockList, isIPv4, isIPv6 } from "node:net";
+import type { Duplex } from "node:stream";
+import { setTimeout as sleep } from "node:timers/promises";
 import { type BrowserServer, firefox } from "playwright-core";
-import type { CamoufoxPaths } from "./pkgman.js";
+import { InvalidIP, UnprotectedServer } from "./exceptions.js";
+import {
+	handleHealthRequest,
+	type ServerMetrics,
+	ServerStats,
+} from "./metrics.js";
+import { type CamoufoxPaths, installedVerStr } from "./pkgman.js";
+import { startVirtualDisplay, withoutHostDisplay } from "./sync_api.js";
 import { type LaunchOptions, launchOptions } from "./utils.js";
+import type { VirtualDisplay } from "./virtdisplay.js";
+import {
+	listenForUpgrades,
+	proxyUpgrade,
+	rejectUpgrade,
+	upgradeEndpoint,
+} from "./ws_proxy.js";
+
+// How long shutdown() waits for clients to disconnect, in milliseconds
+const DRAIN_TIMEOUT = 30e3;
+
+// How long the browser may take to close before it is killed, in milliseconds
+const BROWSER_CLOSE_TIMEOUT = 10e3;
+
+const SHUTDOWN_SIGNALS = ["SIGINT", "SIGTERM"] as const;
+
+export interface ServerAccessOptions {
+	/** Token clients must send, as `Authorization: Bearer <token>` or the `token` query parameter. */
+	token?: string;
+
+	/** IP addresses or CIDR ranges (e.g. `"10.0.0.0/8"`) clients must connect from. */
+	allowed_ips?: string[];
+
+	/** Called for every connection attempt, accepted or not. */
+	on_access?: (entry: AccessLogEntry) => void;
+}
+
+export interface AccessLogEntry {
+	/** When the client connected. */
+	time: Date;
+	/** Address of the client. */
+	ip: string;
+	/** Whether the client may connect. */
+	allowed: boolean;
+	/** Why the client was rejected. */
+	reason?: "missing-token" | "invalid-token" | "ip-not-allowed";
+}
+
+export interface LaunchServerOptions extends ServerAccessOptions {
+	/** Port of the WebSocket endpoint. Defaults to a random free port. */
+	port?: number;
+
+	/** Path of the WebSocket endpoint. Defaults to a random, unguessable path. */
+	ws_path?: string;
+
+	/** Host to listen on. Defaults to `"localhost"`. Other hosts require `token` or `allowed_ips`. */
+	host?: string;
+
+	/** Custom paths configuration for Camoufox. */
+	paths?: CamoufoxPaths;
+
+	/** Whether to run the browser headless. `"virtual"` runs it headful in a virtual display (Linux only). */
+	headless?: boolean | "virtual";
+
+	/** How long `shutdown()` waits for clients to disconnect, in milliseconds. Defaults to 30 seconds. */
+	drain_timeout?: number;
+
+	/** Shut down gracefully on SIGTERM and SIGINT, then exit the process. */
+	handle_signals?: boolean;
+}
+
+/**
+ * Whether the host only accepts connections from this machine.
+ */
+export function isLocalHost(host: string): boolean {
+	return (
+		host === "localhost" ||
+		host === "::1" ||
+		host === "[::1]" ||
+		/^127\.\d+\.\d+\.\d+$/.test(host)
+	);
+}
+
+// Parsed `allowed_ips`, so that they are not parsed again for every connection
+const ALLOWLISTS = new WeakMap<string[], BlockList>();
+
+function allowlist(allowed_ips: string[]): BlockList {
+	let list = ALLOWLISTS.get(allowed_ips);
+	if (!list) {
+		list = new BlockList();
+		for (const allowed of allowed_ips) {
+			const [address, prefix] = allowed.split("/");
+			const type = isIPv6(address) ? "ipv6" : isIPv4(address) ? "ipv4" : null;
+			const bits = type === "ipv6" ? 128 : 32;
+			if (
+				!type ||
+				(prefix !== undefined &&
+					!(/^\d+$/.test(prefix) && Number(prefix) <= bits))
+			) {
+				throw new InvalidIP(`Invalid entry in allowed_ips: ${allowed}`);
+			}
+			if (prefix === undefined) {
+				list.addAddress(address, type);
+			} else {
+				list.addSubnet(address, Number(prefix), type);
+			}
+		}
+		ALLOWLISTS.set(allowed_ips, list);
+	}
+	return list;
+}
+
+/**
+ * Makes sure a server reachable from other machines cannot be used by anyone,
+ * and that `allowed_ips` only contains addresses and CIDR ranges.
+ * @throws {InvalidIP} If an entry of `allowed_ips` is malformed
+ */
+export function assertServerProtected(
+	host: string,
+	{ token, allowed_ips }: ServerAccessOptions,
+): void {
+	if (!isLocalHost(host) && !token && !allowed_ips?.length) {
+		throw new UnprotectedServer(
+			`Refusing to listen on ${host} without a token or allowed_ips.`,
+		);
+	}
+	if (allowed_ips?.length) {
+		allowlist(allowed_ips);
+	}
+}
+
+/**
+ * Checks the token and address of a connecting client.
+ */
+export function checkAccess(
+	req: IncomingMessage,
+	{ token, allowed_ips }: ServerAccessOptions,
+): AccessLogEntry {
+	// IPv4 clients of dual-stack servers show up as IPv4-mapped IPv6 addresses
+	const ip = (req.socket.remoteAddress ?? "").replace(/^::ffff:/, "");
+	const entry: AccessLogEntry = { time: new Date(), ip, allowed: true };
+
+	if (allowed_ips?.length) {
+		const list = allowlist(allowed_ips);
+		if (!list.check(ip, isIPv6(ip) ? "ipv6" : "ipv4")) {
+			return { ...entry, allowed: false, reason: "ip-not-allowed" };
+		}
+	}
+
+	if (token) {
+		const sent =
+			req.headers.authorization?.match(/^Bearer (.+)$/i)?.[1] ??
+			new URL(req.url ?? "/", "http://localhost").searchParams.get("token");
+		if (!sent) {
+			return { ...entry, allowed: false, reason: "missing-token" };
+		}
+		const expected = Buffer.from(token);
+		const actual = Buffer.from(sent);
+		if (
+			expected.length !== actual.length ||
+			!timingSafeEqual(expected, actual)
+		) {
+			return { ...entry, allowed: false, reason: "invalid-token" };
+		}
+	}
+
+	return entry;
+}
+
+/**
+ * Runs the access check, reports it to `on_access` and rejects the upgrade if needed.
+ * @returns Whether the client may connect
+ */
+export function authorizeUpgrade(
+	req: IncomingMessage,
+	socket: Duplex,
+	access: ServerAccessOptions,
+): boolean {
+	const entry = checkAccess(req, access);
+	access.on_access?.(entry);
+	if (!entry.allowed) {
+		rejectUpgrade(
+			socket,
+			entry.reason === "ip-not-allowed" ? 403 : 401,
+			"Access denied.",
+		);
+	}
+	return entry.allowed;
+}
+
+/**
+ * A Playwright browser server, with health and metrics endpoints.
+ */
+export interface CamoufoxServer extends BrowserServer {
+	/** Base URL of the `/health`, `/ready` and `/metrics` endpoints. */
+	healthEndpoint(): string;
+	/** Current numbers reported by `/metrics`. */
+	metrics(): ServerMetrics;
+	/**
+	 * Stops accepting clients, waits up to `timeout` milliseconds for connected clients to leave,
+	 * then closes the browser (killing it if it hangs) and its virtual display.
+	 */
+	shutdown(timeout?: number): Promise<void>;
+}
+
+function installedVersion(paths?: CamoufoxPaths): string | null {
+	try {
+		return installedVerStr(paths);
+	} catch {
+		return null;
+	}
+}
 
 export async function launchServer({
 	port,
 	ws_path,
+	host = "localhost",
+	token,
+	allowed_ips,
+	on_access,
+	headless,
+	drain_timeout = DRAIN_TIMEOUT,
+	handle_signals = false,
 	...options
-}:
-	| LaunchOptions
-	| {
-			port?: number;
-			ws_path?: string;
-			paths?: CamoufoxPaths;
-	  }): Promise<BrowserServer> {
-	return firefox.launchServer({
-		...(await launchOptions(options)),
-		port,
-		wsPath: ws_path,
+}: Omit<LaunchOptions, "headless"> &
+	LaunchServerOptions): Promise<CamoufoxServer> {
+	const access: ServerAccessOptions = { token, allowed_ips, on_access };
+	assertServerProtected(host, access);
+
+	let virtualDisplay: VirtualDisplay | null = null;
+	if (headless === "virtual") {
+		options.env = withoutHostDisplay(options.env);
+	}
+	const fromOptions = await launchOptions({
+		...options,
+		headless: headless === "virtual" ? false : headless,
 	});
+	if (headless === "virtual") {
+		virtualDisplay = await startVirtualDisplay(fromOptions, options.debug);
+	}
+
+	// Playwright has no access checks or metrics, so the browser only listens locally behind a proxy
+	let server: CamoufoxServer;
+	try {
+		server = (await firefox.launchServer({
+			...fromOptions,
+			host: "localhost",
+			port: 0,
+			wsPath: `/${randomUUID()}`,
+			// Playwright would kill the browser right away, before the clients are drained
+			...(handle_signals && {
+				handleSIGINT: false,
+				handleSIGTERM: false,
+				handleSIGHUP: false,
+			}),
+		})) as CamoufoxServer;
+	} catch (error) {
+		virtualDisplay?.kill();
+		throw error;
+	}
+	if (virtualDisplay) {
+		const display = virtualDisplay;
+		server.once("close", () => display.close());
+	}
+
+	const browserEndpoint = server.wsEndpoint();
+	const stats = new ServerStats(
+		installedVersion(options.paths),
+		() => server.process()?.pid,
+	);
+	const path = ws_path
+		? ws_path.startsWith("/")
+			? ws_path
+			: `/${ws_path}`
+		: `/${randomUUID()}`;
+	let draining = false;
+	let front: Server;
+	try {
+		front = await listenForUpgrades(
+			port ?? 0,
+			host,
+			path,
+			async (req, socket, head) => {
+				if (draining) {
+					rejectUpgrade(socket, 503, "The server is shutting down.");
+					return;
+				}
+				if (!authorizeUpgrade(req, socket, access)) {
+					return;
+				}
+				const { tracker, untrack } = stats.track();
+				socket.once("close", untrack);
+				await proxyUpgrade(req, socket, head, browserEndpoint, (chunk) =>
+					tracker.push(chunk),
+				);
+			},
+			(req, res) => handleHealthRequest(req, res, stats, () => !draining),
+		);
+	} catch (error) {
+		await server.close();
+		await virtualDisplay?.close();
+		throw error;
+	}
+
+	const endpoint = upgradeEndpoint(front, host, path);
+	const closeFront = () =>
+		new Promise<void>((resolve) => {
+			front.close(() => resolve());
+			front.closeIdleConnections();
+		});
+	const { close, kill } = server;
+	server.wsEndpoint = () => endpoint;
+	server.healthEndpoint = () =>
+		new URL("/", endpoint.replace(/^ws/, "http")).href;
+	server.metrics = () => stats.snapshot();
+	// The front server closes once the browser is gone and its clients are disconnected
+	server.close = async () => {
+		const frontClosed = closeFront();
+		await close.call(server);
+		await frontClosed;
+		await virtualDisplay?.close();
+	};
+	server.kill = async () => {
+		const frontClosed = closeFront();
+		await kill.call(server);
+		await frontClosed;
+		await virtualDisplay?.close();
+	};
+
+	let shuttingDown: Promise<void> | undefined;
+	server.shutdown = (timeout = drain_timeout) => {
+		shuttingDown ??= (async () => {
+			draining = true;
+			const deadline = Date.now() + timeout;
+			while (stats.clients > 0 && Date.now() < deadline) {
+				await sleep(100);
+			}
+			// Closing the browser closes the remaining contexts
+			const hung = await Promise.race([
+				server.close().then(() => false),
+				sleep(BROWSER_CLOSE_TIMEOUT).then(() => true),
+			]);
+			if (hung) {
+				await server.kill();
+			}
+		})();
+		return shuttingDown;
+	};
+
+	if (handle_signals) {
+		const onSignal = async () => {
+			await server.shutdown();
+			process.exit(0);
+		};
+		for (const signal of SHUTDOWN_SIGNALS) {
+			process.once(signal, onSignal);
+		}
+		server.once("close", () => {
+			for (const signal of SHUTDOWN_SIGNALS) {
+				process.off(signal, onSignal);
+			}
+		});
+	}
+
+	return server;
 }
@@ -4,13 +4,30 @@ import {
 	type BrowserType,
 	firefox,
 } from "playwright-core";
+import { VirtualDisplayError } from "./exceptions.js";
+import type { LiveViewOptions } from "./liveview.js";
 import type { CamoufoxPaths } from "./pkgman.js";
-import { type LaunchOptions, launchOptions, syncAttachVD } from "./utils.js";
-import { VirtualDisplay } from "./virtdisplay.js";
+import { loadProfile, saveProfile } from "./profile.js";
+import {
+	attachVD,
+	configFromEnv,
+	type LaunchOptions,
+	launchOptions,
+} from "./utils.js";
+import { VirtualDisplay, type VirtualDisplayScreen } from "./virtdisplay.js";
+
+/**
+ * Extra properties of browsers and contexts launched by Camoufox.
+ */
+export interface CamoufoxHandle {
+	/** URL of the live view, when launched with `headless: "virtual"` and `liveView`. */
+	liveViewUrl?: string;
+}
 
 export async function Camoufox<
 	UserDataDir extends string | undefined = undefined,
-	ReturnType = UserDataDir extends string ? BrowserContext : Browser,
+	ReturnType = (UserDataDir extends string ? BrowserContext : Browser) &
+		CamoufoxHandle,
 >(
 	launch_options:
 		| LaunchOptions
@@ -33,7 +50,8 @@ export async function Camoufox<
 
 export async function NewBrowser<
 	UserDataDir extends string | false = false,
-	ReturnType = UserDataDir extends string ? BrowserContext : Browser,
+	ReturnType = (UserDataDir extends string ? BrowserContext : Browser) &
+		CamoufoxHandle,
 >(
 	playwright: BrowserType<Browser>,
 	headless: boolean | "virtual" = false,
@@ -42,28 +60,129 @@ export async function NewBrowser<
 	debug: boolean = false,
 	launch_options: LaunchOptions = {},
 ): Promise<ReturnType> {
-	let virtualDisplay: VirtualDisplay | null = null;
+	let virtualDisplay: Pick<VirtualDisplay, "close" | "liveViewUrl"> | null =
+		null;
+
+	const {
+		virtual_display_pool: displayPool,
+		liveView,
+		record,
+		...options
+	} = launch_options;
+	launch_options = options;
+
+	if ((liveView || record) && headless !== "virtual") {
+		throw new VirtualDisplayError(
+			'The live view and the recorder require `headless: "virtual"`.',
+		);
+	}
+	if ((liveView || record) && displayPool) {
+		throw new VirtualDisplayError(
+			"The live view and the recorder cannot be used with a shared virtual display pool.",
+		);
+	}
 
 	if (headless === "virtual") {
-		virtualDisplay = new VirtualDisplay(debug);
-		launch_options.virtual_display = virtualDisplay.get();
+		launch_options.env = withoutHostDisplay(launch_options.env);
 		launch_options.headless = false;
+		// Fingerprints must fit on the pool's shared displays
+		if (displayPool) {
+			launch_options.screen ??= displayPool.screenConstraints;
+		}
 	} else {
 		launch_options.headless ||= headless;
 	}
 
 	if (!fromOptions || Object.keys(fromOptions).length === 0) {
+		// Reuse the fingerprint stored with a persistent profile
+		if (typeof userDataDir === "string" && !launch_options.profile) {
+			launch_options.profile = loadProfile(userDataDir);
+		}
 		fromOptions = await launchOptions({ debug, ...launch_options });
 	}
 
-	if (typeof userDataDir === "string") {
-		const context = await playwright.launchPersistentContext(
-			userDataDir,
-			fromOptions,
-		);
-		return syncAttachVD(context, virtualDisplay);
+	if (headless === "virtual") {
+		if (displayPool) {
+			const lease = await displayPool.acquire();
+			fromOptions.env = { ...fromOptions.env, DISPLAY: lease.display };
+			virtualDisplay = {
+				close: async () => lease.release(),
+				liveViewUrl: null,
+			};
+		} else {
+			const ownDisplay = await startVirtualDisplay(
+				fromOptions,
+				debug,
+				liveView,
+			);
+			if (record) {
+				try {
+					await ownDisplay.record(record);
+				} catch (error) {
+					ownDisplay.kill();
+					throw error;
+				}
+			}
+			virtualDisplay = ownDisplay;
+		}
 	}
 
-	const browser = await playwright.launch(fromOptions);
-	return syncAttachVD(browser, virtualDisplay);
+	try {
+		if (typeof userDataDir === "string") {
+			const context = await playwright.launchPersistentContext(
+				userDataDir,
+				fromOptions,
+			);
+			saveProfile(userDataDir, fromOptions);
+			return attachVD(context, virtualDisplay) as ReturnType;
+		}
+
+		const browser = await playwright.launch(fromOptions);
+		return attachVD(browser, virtualDisplay) as ReturnType;
+	} catch (error) {
+		await virtualDisplay?.close();
+		throw error;
+	}
+}
+
+/**
+ * Removes the host display from the environment of a browser launched in a virtual display.
+ * The virtual display is sized after the fingerprint, so the host display must not constrain it.
+ */
+export function withoutHostDisplay(
+	env: LaunchOptions["env"] = process.env as Record<string, string>,
+): Record<string, string | number | boolean> {
+	const { DISPLAY: _, ...rest } = env;
+	return rest;
+}
+
+/**
+ * Starts a virtual display sized after the fingerprint, and points the browser to it.
+ */
+export async function startVirtualDisplay(
+	fromOptions: Record<string, any>,
+	debug: boolean = false,
+	liveView?: LiveViewOptions,
+): Promise<VirtualDisplay> {
+	const virtualDisplay = new VirtualDisplay(
+		debug,
+		screenFromOptions(fromOptions),
+		liveView,
+	);
+	fromOptions.env = { ...fromOptions.env, DISPLAY: await virtualDisplay.get() };
+	return virtualDisplay;
+}
+
+/**
+ * Reads the screen of the fingerprint passed to Camoufox, to size the virtual display after it.
+ */
+export function screenFromOptions(
+	fromOptions: Record<string, any>,
+): VirtualDisplayScreen {
+	const config = configFromEnv(fromOptions.env ?? {}) ?? {};
+	return {
+		width: config["screen.width"],
+		height: config["screen.height"],
+		depth: config["screen.colorDepth"],
+	};
 }
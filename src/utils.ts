@@ -2,13 +2,19 @@
 // from screeninfo import get_monitors
 // from ua_parser import user_agent_parser
 
+import { execFile } from "node:child_process";
 import { type PathLike, readFileSync } from "node:fs";
 import path from "node:path";
+import { promisify } from "node:util";
 import type {
 	Fingerprint,
 	FingerprintGeneratorOptions,
 } from "fingerprint-generator";
-import type { LaunchOptions as PlaywrightLaunchOptions } from "playwright-core";
+import type {
+	Browser,
+	BrowserContext,
+	LaunchOptions as PlaywrightLaunchOptions,
+} from "playwright-core";
 import { UAParser } from "ua-parser-js";
 import {
 	addDefaultAddons,
@@ -26,7 +32,9 @@ import {
 	generateFingerprint,
 	SUPPORTED_OS,
 } from "./fingerprints.js";
-import { publicIP, validIPv4, validIPv6 } from "./ip.js";
+import { type GeoIPProvider, isGeoIPProvider } from "./geoip.js";
+import { ProxyHelper, publicIP, validIPv4, validIPv6 } from "./ip.js";
+import type { LiveViewOptions } from "./liveview.js";
 import { geoipAllowed, getGeolocation, handleLocales } from "./locale.js";
 import FONTS from "./mappings/fonts.config.js";
 import {
@@ -37,7 +45,12 @@ import {
 	launchPath,
 	OS_NAME,
 } from "./pkgman.js";
-import type { VirtualDisplay } from "./virtdisplay.js";
+import type { FingerprintProfile, ProfileDocument } from "./profile.js";
+import { checkProxy, type ProxyCheckOptions } from "./proxy_check.js";
+import { isProxyProvider, type ProxyProvider } from "./proxy_provider.js";
+import { type RandomSource, seededRandom } from "./random.js";
+import type { RecorderOptions } from "./recorder.js";
+import type { VirtualDisplay, VirtualDisplayPool } from "./virtdisplay.js";
 import { LeakWarning } from "./warnings.js";
 import { sampleWebGL } from "./webgl/sample.js";
 
@@ -89,6 +102,23 @@ async function getEnvVars(
 	return envVars;
 }
 
+/**
+ * Reads back the Camoufox config from the `CAMOU_CONFIG_*` environment variables
+ * created by `getEnvVars`.
+ */
+export function configFromEnv(
+	env: Record<string, string | number | boolean | undefined>,
+): Record<string, any> | undefined {
+	let configStr = "";
+	for (let i = 1; `CAMOU_CONFIG_${i}` in env; i++) {
+		configStr += env[`CAMOU_CONFIG_${i}`];
+	}
+	if (!configStr) {
+		return undefined;
+	}
+	return JSON.parse(configStr);
+}
+
 export function getAsBooleanFromENV(
 	name: string,
 	defaultValue?: boolean | undefined,
@@ -162,7 +192,7 @@ interface EnvVars {
 	[key: string]: string | number | boolean;
 }
 
-async function validateConfig(
+export async function validateConfig(
 	configMap: Record<string, string>,
 	path?: PathLike,
 	paths?: CamoufoxPaths,
@@ -228,23 +258,93 @@ function determineUAOS(userAgent: string): "mac" | "win" | "lin" {
 	return "lin";
 }
 
-function getScreenCons(headless?: boolean): Screen | undefined {
-	if (headless === false) {
+// Displays smaller than this (e.g. a placeholder Xvfb screen) do not constrain the fingerprint
+const MIN_SCREEN_SIZE: [number, number] = [800, 600];
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Reads the monitors from the output of `xrandr --listmonitors`, as `[width, height]` pairs.
+ */
+export function parseXrandrMonitors(output: string): [number, number][] {
+	// Example line: " 0: +*HDMI-1 1920/527x1080/296+0+0  HDMI-1"
+	return [...output.matchAll(/\s(\d+)\/\d+x(\d+)\/\d+\+/g)].map(
+		(match): [number, number] => [Number(match[1]), Number(match[2])],
+	);
+}
+
+/**
+ * Reads the screen size from the output of `xdpyinfo`, as a `[width, height]` pair.
+ */
+export function parseXdpyinfoScreen(output: string): [number, number] | null {
+	// Example line: "  dimensions:    1920x1080 pixels (508x285 millimeters)"
+	const match = output.match(/dimensions:\s+(\d+)x(\d+) pixels/);
+	return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+/**
+ * Returns screen constraints matching the largest monitor,
+ * or `undefined` if there is none or it is too small to matter.
+ */
+export function screenConsFromMonitors(
+	monitors: [number, number][],
+): Screen | undefined {
+	if (!monitors.length) {
 		return undefined;
 	}
-	// TODO - Implement getMonitors
-	// try {
-	//     const monitors = getMonitors();
-	//     if (!monitors.length) {
-	//         return undefined;
-	//     }
-	//     const monitor = monitors.reduce((prev, curr) => (prev.width * prev.height > curr.width * curr.height ? prev : curr));
-	//     return { maxWidth: monitor.width, maxHeight: monitor.height };
-	// } catch {
-	//     return undefined;
-	// }
-
-	return undefined;
+	const [width, height] = monitors.reduce((prev, curr) =>
+		prev[0] * prev[1] > curr[0] * curr[1] ? prev : curr,
+	);
+	if (width < MIN_SCREEN_SIZE[0] || height < MIN_SCREEN_SIZE[1]) {
+		return undefined;
+	}
+	return { maxWidth: width, maxHeight: height };
+}
+
+/**
+ * Lists the monitors of an X display as `[width, height]` pairs.
+ * Uses `xrandr`, falling back to the screen size reported by `xdpyinfo`.
+ */
+async function getMonitors(display: string): Promise<[number, number][]> {
+	const run = async (command: string, args: string[]) =>
+		(
+			await execFileAsync(command, args, {
+				env: { ...process.env, DISPLAY: display },
+				timeout: 5000,
+			})
+		).stdout;
+
+	try {
+		const monitors = parseXrandrMonitors(
+			await run("xrandr", ["--listmonitors"]),
+		);
+		if (monitors.length) {
+			return monitors;
+		}
+	} catch {}
+
+	try {
+		const screen = parseXdpyinfoScreen(await run("xdpyinfo", []));
+		if (screen) {
+			return [screen];
+		}
+	} catch {}
+
+	return [];
+}
+
+/**
+ * Returns screen constraints matching the largest monitor of the X display,
+ * so headful windows are never bigger than the screen they are shown on.
+ */
+async function getScreenCons(
+	headless?: boolean,
+	display?: string,
+): Promise<Screen | undefined> {
+	if (headless || !display || OS_NAME !== "lin") {
+		return undefined;
+	}
+	return screenConsFromMonitors(await getMonitors(display));
 }
 
 function updateFonts(
@@ -271,7 +371,7 @@ function checkCustomFingerprint(fingerprint: Fingerprint): void {
 	LeakWarning.warn("custom_fingerprint", false);
 }
 
-function validateOS(
+export function validateOS(
 	os?: (typeof SUPPORTED_OS)[number] | (typeof SUPPORTED_OS)[number][],
 ): (typeof SUPPORTED_OS)[number][] | undefined {
 	if (!os) return undefined;
@@ -349,50 +449,41 @@ function warnManualConfig(config: Record<string, any>): void {
 	}
 }
 
-async function _asyncAttachVD(
-	browser: any,
-	virtualDisplay?: VirtualDisplay,
-): Promise<any> {
-	if (!virtualDisplay) {
-		return browser;
-	}
-
-	const originalClose = browser.close;
-
-	browser.close = async (...args: any[]) => {
-		await originalClose.apply(browser, ...args);
-		if (virtualDisplay) {
-			virtualDisplay.kill();
-		}
+/**
+ * Ties a virtual display to the lifecycle of a browser or persistent context.
+ * `close()` waits for the browser to shut down before tearing down the display,
+ * which is also torn down if the browser disconnects on its own.
+ * The returned handle supports `await using`.
+ */
+export function attachVD<T extends Browser | BrowserContext>(
+	browser: T,
+	virtualDisplay?: Pick<VirtualDisplay, "close" | "liveViewUrl"> | null,
+): T {
+	const target = browser as any;
+	const originalClose = target.close;
+	let closing: Promise<void> | undefined;
+
+	target.close = (...args: any[]): Promise<void> => {
+		closing ??= (async () => {
+			try {
+				await originalClose.apply(target, args);
+			} finally {
+				await virtualDisplay?.close();
+			}
+		})();
+		return closing;
 	};
-
-	browser._virtualDisplay = virtualDisplay;
-
-	return browser;
-}
-
-export function syncAttachVD(
-	browser: any,
-	virtualDisplay?: VirtualDisplay | null,
-): any {
-	/**
-	 * Attaches the virtual display to the sync browser cleanup
-	 */
-	if (!virtualDisplay) {
-		// Skip if no virtual display is provided
-		return browser;
-	}
-
-	const originalClose = browser.close;
-
-	browser.close = (...args: any[]) => {
-		originalClose.apply(browser, ...args);
-		if (virtualDisplay) {
-			virtualDisplay.kill();
+	target[Symbol.asyncDispose] = () => target.close();
+
+	if (virtualDisplay) {
+		// Browsers emit "disconnected", persistent contexts emit "close"
+		const event = "isConnected" in target ? "disconnected" : "close";
+		target.once(event, () => virtualDisplay.close());
+		target._virtualDisplay = virtualDisplay;
+		if (virtualDisplay.liveViewUrl) {
+			target.liveViewUrl = virtualDisplay.liveViewUrl;
 		}
-	};
-
-	browser._virtualDisplay = virtualDisplay;
+	}
 
 	return browser;
 }
@@ -418,8 +509,10 @@ export interface LaunchOptions {
 
 	/** Calculate longitude, latitude, timezone, country, & locale based on the IP address.
 	 * Pass the target IP address to use, or `true` to find the IP address automatically.
+	 * Pass a `GeoIPProvider` to find the IP address automatically and look it up in your own database,
+	 * instead of the GeoLite2 database downloaded from GitHub.
 	 */
-	geoip?: string | boolean;
+	geoip?: string | boolean | GeoIPProvider;
 
 	/** Humanize the cursor movement.
 	 * Takes either `true`, or the MAX duration in seconds of the cursor movement.
@@ -475,10 +568,10 @@ export interface LaunchOptions {
 	/** Firefox user preferences to set. */
 	firefox_user_prefs?: Record<string, any>;
 
-	/** Proxy to use for the browser.
+	/** Proxy to use for the browser, or a `ProxyProvider` to pull a proxy from for every launch.
 	 * Note: If `geoip` is `true`, a request will be sent through this proxy to find the target IP.
 	 */
-	proxy?: string | PlaywrightLaunchOptions["proxy"];
+	proxy?: string | PlaywrightLaunchOptions["proxy"] | ProxyProvider;
 
 	/** Cache previous pages, requests, etc. (uses more memory). */
 	enable_cache?: boolean;
@@ -495,46 +588,59 @@ export interface LaunchOptions {
 	/** Virtual display number. Example: `":99"`. This is handled by Camoufox & AsyncCamoufox. */
 	virtual_display?: string;
 
+	/** Share the Xvfb servers of this pool when `headless` is `"virtual"`, instead of starting one per browser.
+	 * This is handled by Camoufox & NewBrowser.
+	 */
+	virtual_display_pool?: VirtualDisplayPool;
+
+	/** Attach a VNC server (x11vnc) to the virtual display when `headless` is `"virtual"`,
+	 * to watch the browser live. The connection URL is exposed as `liveViewUrl` on the returned browser.
+	 * This is handled by Camoufox & NewBrowser.
+	 */
+	liveView?: LiveViewOptions;
+
+	/** Record the whole virtual display (not only the page) with ffmpeg when `headless` is `"virtual"`.
+	 * The recording is finished when the browser closes.
+	 * This is handled by Camoufox & NewBrowser.
+	 */
+	record?: RecorderOptions;
+
 	/** Use a specific WebGL vendor/renderer pair. Passed as a tuple of `[vendor, renderer]`. */
 	webgl_config?: [string, string];
 
 	/** Custom paths configuration for Camoufox. */
 	paths?: CamoufoxPaths;
 
+	/** Seed for every random decision made while building the launch options
+	 * (fingerprint, window position, fonts spacing, WebGL pair, locale, canvas offsets...).
+	 * Launching twice with the same seed and options produces the same config.
+	 */
+	seed?: number | string;
+
+	/** A previously resolved fingerprint to reuse instead of generating a new one.
+	 * Explicit `config`, `locale`, `fonts` and `geoip` options still take precedence.
+	 * The addons and proxy of a document from `importProfile` are used too, unless `proxy` is given.
+	 * Persistent contexts (`user_data_dir`) store and restore this automatically.
+	 */
+	profile?: FingerprintProfile | ProfileDocument;
+
+	/** Send a request through the proxy before launching, and throw an `InvalidProxy` error with a `reason`
+	 * if the proxy is unreachable, rejects the credentials, is too slow, leaks the real IP,
+	 * or exits in another country than the `geoip` target IP.
+	 */
+	proxy_check?: boolean | ProxyCheckOptions;
+
 	/** Additional Firefox launch options. */
 	[key: string]: any;
 }
 
 /**
- * Convert a Playwright proxy string to a URL object.
- *
- * Implementation from https://github.com/microsoft/playwright/blob/3873b72ac1441ca691f7594f0ed705bd84518f93/packages/playwright-core/src/server/browserContext.ts#L737-L747
+ * Convert a Playwright proxy, or a proxy URL string, to a URL object.
  */
 function getProxyUrl(
 	proxy: PlaywrightLaunchOptions["proxy"] | string,
 ): URL | null {
-	if (!proxy) return null;
-
-	if (typeof proxy === "string") {
-		return new URL(proxy);
-	}
-
-	const { server, username, password } = proxy;
-	let url;
-	try {
-		// new URL('127.0.0.1:8080') throws
-		// new URL('localhost:8080') fails to parse host or protocol
-		// In both of these cases, we need to try re-parse URL with `http://` prefix.
-		url = new URL(server);
-		if (!url.host || !url.protocol) url = new URL(`http://${server}`);
-	} catch (_e) {
-		url = new URL(`http://${server}`);
-	}
-
-	if (username) url.username = username;
-	if (password) url.password = password;
-
-	return url;
+	return proxy ? ProxyHelper.toURL(proxy) : null;
 }
 
 export async function launchOptions({
@@ -567,6 +673,9 @@ export async function launchOptions({
 	i_know_what_im_doing,
 	debug,
 	virtual_display,
+	seed,
+	profile,
+	proxy_check,
 	...launch_options
 }: LaunchOptions): Promise<Record<string, any>> {
 	// Build the config
@@ -601,6 +710,10 @@ export async function launchOptions({
 		executable_path = path.resolve(executable_path);
 	}
 
+	// Use a seeded random source if requested, so the launch can be reproduced
+	const random: RandomSource =
+		seed === undefined ? Math.random : seededRandom(seed);
+
 	// Handle virtual display
 	if (virtual_display) {
 		env.DISPLAY = virtual_display;
@@ -611,6 +724,20 @@ export async function launchOptions({
 		warnManualConfig(config);
 	}
 
+	// Restore a stored fingerprint. Values set by the user are kept.
+	if (profile) {
+		mergeInto(config, profile.config);
+		mergeInto(firefox_user_prefs, profile.firefoxUserPrefs);
+
+		// Documents from `importProfile` also carry the addons and proxy of the identity
+		if ("addons" in profile) {
+			addons = [...new Set([...addons, ...profile.addons])];
+		}
+		if ("proxy" in profile && !proxy) {
+			proxy = profile.proxy;
+		}
+	}
+
 	const operatingSystems = validateOS(os);
 
 	// webgl_config requires OS to be set
@@ -654,13 +781,19 @@ export async function launchOptions({
 		}
 	}
 
-	// Generate a fingerprint
-	if (!fingerprint) {
-		fingerprint = generateFingerprint(window, {
-			screen: screen || getScreenCons(headless || "DISPLAY" in env),
-			operatingSystems,
-		});
-	} else {
+	// Generate a fingerprint, unless a stored one was restored.
+	// Filling its gaps from a second random device would mix two devices.
+	if (!fingerprint && !profile) {
+		fingerprint = generateFingerprint(
+			window,
+			{
+				screen:
+					screen || (await getScreenCons(headless, env.DISPLAY?.toString())),
+				operatingSystems,
+			},
+			random,
+		);
+	} else if (fingerprint) {
 		// Or use the one passed by the user
 		if (!i_know_what_im_doing) {
 			checkCustomFingerprint(fingerprint);
@@ -668,12 +801,14 @@ export async function launchOptions({
 	}
 
 	// Inject the fingerprint into the config
-	mergeInto(config, fromBrowserforge(fingerprint, ff_version_str));
+	if (fingerprint) {
+		mergeInto(config, fromBrowserforge(fingerprint, ff_version_str, random));
+	}
 
 	const targetOS = getTargetOS(config);
 
 	// Set a random window.history.length
-	setInto(config, "window.history.length", Math.floor(Math.random() * 5) + 1);
+	setInto(config, "window.history.length", Math.floor(random() * 5) + 1);
 
 	// Update fonts list
 	if (fonts) {
@@ -696,33 +831,64 @@ export async function launchOptions({
 	}
 
 	// Set a fixed font spacing seed
-	setInto(
-		config,
-		"fonts:spacing_seed",
-		Math.floor(Math.random() * 1_073_741_824),
-	);
+	setInto(config, "fonts:spacing_seed", Math.floor(random() * 1_073_741_824));
 
-	// Handle proxy
-	const proxyUrl = getProxyUrl(proxy);
+	// Handle proxy, pulling one from the provider for this launch
+	const provider = isProxyProvider(proxy) ? proxy : null;
+	const pickedProxy = isProxyProvider(proxy) ? await proxy.next() : proxy;
+	const proxyUrl = getProxyUrl(pickedProxy);
 
-	// Set geolocation
-	if (geoip) {
+	// A GeoIP provider only chooses the database, the IP is found as with `true`
+	const geoipProvider = isGeoIPProvider(geoip) ? geoip : undefined;
+	let target = isGeoIPProvider(geoip) ? true : geoip;
+
+	if (target) {
 		geoipAllowed();
+	}
 
-		// Find the user's IP address
-		geoip = await publicIP(proxyUrl?.href);
+	// Make sure the proxy works before launching a browser with it
+	let exitIP: string | undefined;
+	if (proxy_check && proxyUrl) {
+		try {
+			({ exitIP } = await checkProxy(
+				proxyUrl.href,
+				target,
+				proxy_check === true ? {} : proxy_check,
+			));
+			if (pickedProxy) provider?.reportSuccess?.(pickedProxy);
+		} catch (error) {
+			if (pickedProxy) provider?.reportFailure?.(pickedProxy, error);
+			throw error;
+		}
+	}
+
+	// Set geolocation
+	if (target) {
+		// Find the user's IP address, unless a target IP was given
+		if (target === true && exitIP) {
+			// Already found, and reported, by the proxy check
+			target = exitIP;
+		} else if (target === true) {
+			try {
+				target = await publicIP(proxyUrl?.href);
+				if (pickedProxy) provider?.reportSuccess?.(pickedProxy);
+			} catch (error) {
+				if (pickedProxy) provider?.reportFailure?.(pickedProxy, error);
+				throw error;
+			}
+		}
 
 		// Spoof WebRTC if not blocked
 		if (!block_webrtc) {
-			if (validIPv4(geoip)) {
-				setInto(config, "webrtc:ipv4", geoip);
+			if (validIPv4(target)) {
+				setInto(config, "webrtc:ipv4", target);
 				firefox_user_prefs["network.dns.disableIPv6"] = true;
-			} else if (validIPv6(geoip)) {
-				setInto(config, "webrtc:ipv6", geoip);
+			} else if (validIPv6(target)) {
+				setInto(config, "webrtc:ipv6", target);
 			}
 		}
 
-		const geolocation = await getGeolocation(geoip);
+		const geolocation = await getGeolocation(target, random, geoipProvider);
 		config = { ...config, ...geolocation.asConfig() };
 	}
 
@@ -738,7 +904,7 @@ export async function launchOptions({
 
 	// Set locale
 	if (locale) {
-		handleLocales(locale, config);
+		handleLocales(locale, config, random);
 	}
 
 	// Pass the humanize option
@@ -780,6 +946,7 @@ export async function launchOptions({
 				targetOS,
 				...webgl_config,
 				launch_options.paths,
+				random,
 			);
 		} else {
 			webgl_fp = await sampleWebGL(
@@ -787,6 +954,7 @@ export async function launchOptions({
 				undefined,
 				undefined,
 				launch_options.paths,
+				random,
 			);
 		}
 		const { webGl2Enabled, ...webGlConfig } = webgl_fp;
@@ -802,7 +970,7 @@ export async function launchOptions({
 
 	// Canvas anti-fingerprinting
 	mergeInto(config, {
-		"canvas:aaOffset": Math.floor(Math.random() * 101) - 50, // nosec
+		"canvas:aaOffset": Math.floor(random() * 101) - 50, // nosec
 		"canvas:aaCapOffset": true,
 	});
 
@@ -862,14 +1030,7 @@ export async function launchOptions({
 		args: args,
 		env: env_vars as any,
 		firefoxUserPrefs: firefox_user_prefs,
-		proxy: proxyUrl
-			? {
-					server: proxyUrl.origin,
-					username: proxyUrl.username,
-					password: proxyUrl.password,
-					bypass: typeof proxy === "string" ? undefined : proxy?.bypass,
-				}
-			: undefined,
+		proxy: pickedProxy ? ProxyHelper.asPlaywrightProxy(pickedProxy) : undefined,
 		headless: headless,
 		...launch_options,
 	};
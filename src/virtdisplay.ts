@@ -1,31 +1,113 @@
 import { type ChildProcess, execFileSync, spawn } from "node:child_process";
-import { randomInt } from "node:crypto";
-import { existsSync, statSync } from "node:fs";
-import { tmpdir } from "node:os";
+import { existsSync, readFileSync, rmSync, statSync } from "node:fs";
 import path from "node:path";
+import type { Readable } from "node:stream";
+import { setTimeout as sleep } from "node:timers/promises";
 import { globSync } from "glob";
 import {
 	CannotExecuteXvfb,
 	CannotFindXvfb,
+	VirtualDisplayError,
 	VirtualDisplayNotSupported,
+	XvfbStartupFailed,
 } from "./exceptions.js";
+import { LiveView, type LiveViewOptions } from "./liveview.js";
 import { OS_NAME } from "./pkgman.js";
+import { DisplayRecorder, type RecorderOptions } from "./recorder.js";
+
+// How many times Xvfb is started before giving up
+const MAX_START_ATTEMPTS = 3;
+
+// How long Xvfb may take to accept connections, in milliseconds
+const XVFB_STARTUP_TIMEOUT = 10e3;
+
+// X servers always write their lock files to /tmp, whatever TMPDIR says
+const X_TMP_DIR = "/tmp";
+
+// Directory holding the X server sockets
+const X11_SOCKET_DIR = path.join(X_TMP_DIR, ".X11-unix");
+
+// Color depths accepted by Xvfb
+const XVFB_DEPTHS = [8, 15, 16, 24, 30];
+
+export interface VirtualDisplayScreen {
+	/** Screen width in pixels. Defaults to 1. */
+	width?: number;
+	/** Screen height in pixels. Defaults to 1. */
+	height?: number;
+	/** Color depth in bits. Unsupported depths (e.g. 32) fall back to 24. */
+	depth?: number;
+}
+
+// Virtual displays whose Xvfb process is running
+const LIVE_DISPLAYS = new Set<VirtualDisplay>();
+
+let exitHandlersInstalled = false;
+
+/**
+ * Kills every running Xvfb process when Node exits, is interrupted or crashes.
+ */
+function installExitHandlers(): void {
+	if (exitHandlersInstalled) return;
+	exitHandlersInstalled = true;
+
+	process.once("exit", killLiveDisplays);
+	// Observes uncaught exceptions without changing how they are handled.
+	// An `uncaughtException` handler keeps the process (and its browsers) running.
+	process.on("uncaughtExceptionMonitor", () => {
+		if (process.listenerCount("uncaughtException") === 0) {
+			killLiveDisplays();
+		}
+	});
+
+	for (const signal of ["SIGINT", "SIGTERM"] as const) {
+		process.once(signal, () => {
+			// Someone else handles the signal (e.g. a graceful shutdown), the displays are killed on exit
+			if (process.listenerCount(signal) > 0) return;
+			killLiveDisplays();
+			// Keep the default behaviour (exiting)
+			process.kill(process.pid, signal);
+		});
+	}
+}
+
+function killLiveDisplays(): void {
+	for (const virtualDisplay of LIVE_DISPLAYS) {
+		virtualDisplay.kill();
+	}
+}
 
 export class VirtualDisplay {
 	private debug: boolean;
 	private proc: ChildProcess | null = null;
 	private _display: number | null = null;
+	private startup: Promise<number> | null = null;
+	private live_view: LiveView | null;
+	private recorders = new Set<DisplayRecorder>();
+	private width: number;
+	private height: number;
+	private depth: number;
 	// private _lock = new Lock();
 
-	constructor(debug: boolean = false) {
+	constructor(
+		debug: boolean = false,
+		screen: VirtualDisplayScreen = {},
+		liveView?: LiveViewOptions,
+	) {
 		this.debug = debug;
+		this.live_view = liveView ? new LiveView(liveView, debug) : null;
+		this.width = Math.max(1, Math.round(screen.width ?? 1));
+		this.height = Math.max(1, Math.round(screen.height ?? 1));
+		this.depth = XVFB_DEPTHS.includes(screen.depth ?? 24)
+			? (screen.depth ?? 24)
+			: 24;
 	}
 
 	private get xvfb_args(): string[] {
 		return [
 			"-screen",
 			"0",
-			"1x1x24",
+			`${this.width}x${this.height}x${this.depth}`,
 			"-ac",
 			"-nolisten",
 			"tcp",
@@ -50,7 +132,10 @@ export class VirtualDisplay {
 	}
 
 	private get xvfb_path(): string {
-		const path = execFileSync("which", ["Xvfb"]).toString().trim();
+		let path = "";
+		try {
+			path = execFileSync("which", ["Xvfb"]).toString().trim();
+		} catch {}
 		if (!path) {
 			throw new CannotFindXvfb("Please install Xvfb to use headless mode.");
 		}
@@ -63,34 +148,211 @@ export class VirtualDisplay {
 	}
 
 	private get xvfb_cmd(): string[] {
-		return [this.xvfb_path, `:${this.display}`, ...this.xvfb_args];
+		// Xvfb picks a free display number itself and writes it to fd 3 once it is listening
+		return [this.xvfb_path, "-displayfd", "3", ...this.xvfb_args];
 	}
 
-	private execute_xvfb(): void {
+	/**
+	 * Spawns Xvfb and resolves with the display number it reserved,
+	 * once the display accepts connections.
+	 */
+	private async execute_xvfb(): Promise<number> {
 		if (this.debug) {
 			console.log("Starting virtual display:", this.xvfb_cmd.join(" "));
 		}
-		this.proc = spawn(this.xvfb_cmd[0], this.xvfb_cmd.slice(1), {
-			stdio: this.debug ? "inherit" : "ignore",
+		const proc = spawn(this.xvfb_cmd[0], this.xvfb_cmd.slice(1), {
+			stdio: ["ignore", this.debug ? "inherit" : "ignore", "pipe", "pipe"],
 			detached: true,
 		});
+		this.proc = proc;
+		LIVE_DISPLAYS.add(this);
+		installExitHandlers();
+		proc.once("exit", () => {
+			if (this.proc === proc) {
+				LIVE_DISPLAYS.delete(this);
+			}
+		});
+
+		let stderr = "";
+		proc.stderr?.on("data", (chunk: Buffer) => {
+			// Only keep the end of the output, Xvfb keeps writing after startup
+			stderr = (stderr + chunk.toString()).slice(-4096);
+			if (this.debug) {
+				process.stderr.write(chunk);
+			}
+		});
+
+		const deadline = Date.now() + XVFB_STARTUP_TIMEOUT;
+		try {
+			const display = await VirtualDisplay.read_display(proc, deadline);
+			await VirtualDisplay.wait_for_socket(proc, display, deadline);
+			return display;
+		} catch (error) {
+			proc.kill();
+			const reason = error instanceof Error ? error.message : String(error);
+			throw new XvfbStartupFailed(
+				stderr.trim() ? `${reason}\nXvfb output:\n${stderr.trim()}` : reason,
+				stderr,
+			);
+		}
+	}
+
+	/**
+	 * Reads the display number Xvfb writes to fd 3.
+	 */
+	private static read_display(
+		proc: ChildProcess,
+		deadline: number,
+	): Promise<number> {
+		return new Promise<number>((resolve, reject) => {
+			const displayPipe = proc.stdio[3] as Readable;
+			let data = "";
+
+			const cleanup = () => {
+				clearTimeout(timer);
+				displayPipe.off("data", onData);
+				proc.off("exit", onExit);
+				proc.off("error", reject);
+				displayPipe.destroy();
+			};
+			const onData = (chunk: Buffer) => {
+				data += chunk.toString();
+				if (!data.includes("\n")) return;
+				cleanup();
+				resolve(parseInt(data, 10));
+			};
+			const onExit = (code: number | null, signal: string | null) => {
+				cleanup();
+				reject(
+					new Error(
+						`Xvfb exited (${signal ?? `code ${code}`}) before reporting a display.`,
+					),
+				);
+			};
+			const timer = setTimeout(() => {
+				cleanup();
+				reject(
+					new Error(
+						`Xvfb did not report a display within ${XVFB_STARTUP_TIMEOUT}ms.`,
+					),
+				);
+			}, deadline - Date.now());
+
+			displayPipe.on("data", onData);
+			proc.once("exit", onExit);
+			proc.once("error", reject);
+		});
 	}
 
-	public get(): string {
+	/**
+	 * Waits until the X socket of the display exists.
+	 */
+	private static async wait_for_socket(
+		proc: ChildProcess,
+		display: number,
+		deadline: number,
+	): Promise<void> {
+		const socket = path.join(X11_SOCKET_DIR, `X${display}`);
+		while (!existsSync(socket)) {
+			if (proc.exitCode !== null || proc.signalCode !== null) {
+				throw new Error(`Xvfb exited before creating ${socket}.`);
+			}
+			if (Date.now() > deadline) {
+				throw new Error(
+					`${socket} was not created within ${XVFB_STARTUP_TIMEOUT}ms.`,
+				);
+			}
+			await sleep(50);
+		}
+	}
+
+	/**
+	 * Starts Xvfb, retrying if it exits during startup (e.g. because the display got taken).
+	 */
+	private async start(): Promise<number> {
+		let lastError: unknown;
+		let display: number | null = null;
+		for (let attempt = 1; attempt <= MAX_START_ATTEMPTS; attempt++) {
+			try {
+				display = await this.execute_xvfb();
+				break;
+			} catch (error) {
+				lastError = error;
+				this.proc = null;
+				if (this.debug) {
+					console.log(
+						`Virtual display failed to start (attempt ${attempt}/${MAX_START_ATTEMPTS}):`,
+						error,
+					);
+				}
+			}
+		}
+		if (display === null) {
+			throw lastError;
+		}
+		this._display = display;
+
+		if (this.live_view) {
+			try {
+				await this.live_view.start(`:${this._display}`);
+			} catch (error) {
+				this.kill();
+				throw error;
+			}
+		}
+		return this._display;
+	}
+
+	/**
+	 * URL of the live view (VNC or noVNC), if it was requested and is running.
+	 */
+	public get liveViewUrl(): string | null {
+		return this.live_view?.url ?? null;
+	}
+
+	public async get(): Promise<string> {
 		VirtualDisplay.assert_linux();
 
-		// this._lock.runExclusive(() => {
-		if (!this.proc) {
-			this.execute_xvfb();
+		if (!this.startup) {
+			this.startup = this.start();
+			this.startup.catch(() => {
+				this.startup = null;
+			});
 		} else if (this.debug) {
 			console.log(`Using virtual display: ${this.display}`);
 		}
-		// });
 
-		return `:${this.display}`;
+		return `:${await this.startup}`;
+	}
+
+	/**
+	 * Starts recording the whole display into a video file or timed PNG frames.
+	 * Recordings are finished by `stop()` on the recorder or by `close()`.
+	 */
+	public async record(options: RecorderOptions): Promise<DisplayRecorder> {
+		const display = await this.get();
+		const recorder = new DisplayRecorder(options, this.debug);
+		await recorder.start(display, { width: this.width, height: this.height });
+		this.recorders.add(recorder);
+		return recorder;
+	}
+
+	/**
+	 * Finishes the recordings, then stops the display.
+	 */
+	public async close(): Promise<void> {
+		await Promise.all([...this.recorders].map((recorder) => recorder.stop()));
+		this.recorders.clear();
+		this.kill();
 	}
 
 	public kill(): void {
+		// Let ffmpeg finish the files on its own, the X server going away ends its input
+		for (const recorder of this.recorders) {
+			recorder.requestStop();
+		}
+		this.recorders.clear();
+		this.live_view?.stop();
 		// this._lock.runExclusive(() => {
 		if (this.proc && !this.proc.killed) {
 			if (this.debug) {
@@ -98,17 +360,63 @@ export class VirtualDisplay {
 			}
 			this.proc.kill();
 		}
+		LIVE_DISPLAYS.delete(this);
 		// });
 	}
 
+	/**
+	 * Removes lock files (and sockets) of X servers that are no longer running,
+	 * e.g. left behind by crashed runs.
+	 * @param tmpDir Directory of the lock files and the `.X11-unix` socket directory
+	 * @returns List of removed file paths
+	 */
+	public static cleanup_stale_locks(tmpDir: string = X_TMP_DIR): string[] {
+		const removed: string[] = [];
+		for (const lockFile of VirtualDisplay._get_lock_files(tmpDir)) {
+			const display = path.basename(lockFile).match(/^\.X(\d+)-lock$/)?.[1];
+			if (!display) continue;
+
+			let pid: number;
+			try {
+				pid = parseInt(readFileSync(lockFile, "utf-8").trim(), 10);
+			} catch {
+				continue;
+			}
+			if (VirtualDisplay.is_running(pid)) continue;
+
+			for (const file of [
+				lockFile,
+				path.join(tmpDir, ".X11-unix", `X${display}`),
+			]) {
+				try {
+					rmSync(file);
+					removed.push(file);
+				} catch {}
+			}
+		}
+		return removed;
+	}
+
+	private static is_running(pid: number): boolean {
+		if (Number.isNaN(pid) || pid <= 0) {
+			return false;
+		}
+		try {
+			process.kill(pid, 0);
+			return true;
+		} catch (error) {
+			// EPERM: the process exists, but belongs to another user
+			return (error as NodeJS.ErrnoException).code === "EPERM";
+		}
+	}
+
 	/**
 	 * Get list of lock files in /tmp
 	 * @returns List of lock file paths
 	 */
-	public static _get_lock_files(): string[] {
-		const tmpd = process.env.TMPDIR || tmpdir();
+	public static _get_lock_files(tmpDir: string = X_TMP_DIR): string[] {
 		try {
-			return globSync(path.join(tmpd, ".X*-lock")).filter((p) => {
+			return globSync(path.join(tmpDir, ".X*-lock")).filter((p) => {
 				try {
 					return statSync(p).isFile();
 				} catch {
@@ -120,17 +428,7 @@ export class VirtualDisplay {
 		}
 	}
 
-	private static _free_display(): number {
-		const ls = VirtualDisplay._get_lock_files().map((x) =>
-			parseInt(x.split("X")[1].split("-")[0], 10),
-		);
-		return ls.length ? Math.max(99, Math.max(...ls) + randomInt(3, 20)) : 99;
-	}
-
-	private get display(): number {
-		if (this._display === null) {
-			this._display = VirtualDisplay._free_display();
-		}
+	private get display(): number | null {
 		return this._display;
 	}
 
@@ -142,3 +440,130 @@ export class VirtualDisplay {
 		}
 	}
 }
+
+export interface VirtualDisplayPoolOptions {
+	/** Maximum number of Xvfb servers in the pool. Defaults to 1. */
+	size?: number;
+	/** Screen of every display in the pool. Defaults to 1920x1080 with a depth of 24. */
+	screen?: VirtualDisplayScreen;
+	/** Print the Xvfb commands and output. */
+	debug?: boolean;
+}
+
+export interface VirtualDisplayLease {
+	/** The display to connect to. Example: `":99"`. */
+	display: string;
+	/** Releases the display. Its Xvfb server is stopped once no browser uses it. */
+	release(): void;
+}
+
+interface PooledDisplay {
+	virtualDisplay: VirtualDisplay;
+	refs: number;
+}
+
+/**
+ * Shares a small number of Xvfb servers between many browsers.
+ * Displays are reference-counted and stopped when their last browser closes.
+ *
+ * ```ts
+ * const pool = new VirtualDisplayPool({ size: 2 });
+ * const browser = await Camoufox({ headless: "virtual", virtual_display_pool: pool });
+ * ```
+ */
+export class VirtualDisplayPool {
+	private readonly size: number;
+	private readonly screen: Required<VirtualDisplayScreen>;
+	private readonly debug: boolean;
+	private readonly displays: PooledDisplay[] = [];
+
+	constructor({
+		size = 1,
+		screen = {},
+		debug = false,
+	}: VirtualDisplayPoolOptions = {}) {
+		if (!Number.isInteger(size) || size < 1) {
+			throw new VirtualDisplayError(
+				"The pool size must be a positive integer.",
+			);
+		}
+		this.size = size;
+		this.screen = {
+			width: screen.width ?? 1920,
+			height: screen.height ?? 1080,
+			depth: screen.depth ?? 24,
+		};
+		this.debug = debug;
+	}
+
+	/**
+	 * Screen constraints for fingerprints shown on the pool's displays.
+	 */
+	get screenConstraints(): { maxWidth: number; maxHeight: number } {
+		return { maxWidth: this.screen.width, maxHeight: this.screen.height };
+	}
+
+	/**
+	 * Number of running displays.
+	 */
+	get running(): number {
+		return this.displays.length;
+	}
+
+	/**
+	 * Takes a reference to the least used display, starting a new one while the pool is not full.
+	 */
+	async acquire(): Promise<VirtualDisplayLease> {
+		let entry: PooledDisplay;
+		if (this.displays.length < this.size) {
+			entry = {
+				virtualDisplay: new VirtualDisplay(this.debug, this.screen),
+				refs: 0,
+			};
+			this.displays.push(entry);
+		} else {
+			entry = this.displays.reduce((prev, curr) =>
+				curr.refs < prev.refs ? curr : prev,
+			);
+		}
+		entry.refs++;
+
+		let display: string;
+		try {
+			display = await entry.virtualDisplay.get();
+		} catch (error) {
+			this.unref(entry);
+			throw error;
+		}
+
+		let released = false;
+		return {
+			display,
+			release: () => {
+				if (released) return;
+				released = true;
+				this.unref(entry);
+			},
+		};
+	}
+
+	private unref(entry: PooledDisplay): void {
+		entry.refs--;
+		if (entry.refs > 0) return;
+
+		entry.virtualDisplay.kill();
+		const index = this.displays.indexOf(entry);
+		if (index !== -1) {
+			this.displays.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Stops every display in the pool, even if browsers still use them.
+	 */
+	close(): void {
+		for (const entry of this.displays.splice(0)) {
+			entry.virtualDisplay.kill();
+		}
+	}
+}
@@ -6,6 +6,7 @@ import {
 	getDefaultDataDirectory,
 	OS_ARCH_MATRIX,
 } from "../pkgman.js";
+import type { RandomSource } from "../random.js";
 
 // Get database path relative to this file
 function getDbPath(paths?: CamoufoxPaths): string {
@@ -137,6 +138,7 @@ export async function sampleWebGL(
 	vendor?: string,
 	renderer?: string,
 	paths?: CamoufoxPaths,
+	random: RandomSource = Math.random,
 ): Promise<WebGLData> {
 	if (!OS_ARCH_MATRIX[os]) {
 		throw new Error(`Invalid OS: ${os}. Must be one of: win, mac, lin`);
@@ -186,7 +188,7 @@ export async function sampleWebGL(
 				);
 				function weightedRandomChoice(weights: number[]): number {
 					const sum = weights.reduce((acc, weight) => acc + weight, 0);
-					const threshold = Math.random() * sum;
+					const threshold = random() * sum;
 					let cumulativeSum = 0;
 
 					for (let i = 0; i < weights.length; i++) {
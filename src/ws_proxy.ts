@@ -0,0 +1,149 @@
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+	STATUS_CODES,
+} from "node:http";
+import { connect, type Socket } from "node:net";
+import type { Duplex } from "node:stream";
+
+// Headers consumed by the proxy, which are not forwarded to the browser server.
+// Extensions are dropped so the traffic stays uncompressed and can be inspected.
+const HOP_HEADERS = [
+	"host",
+	"authorization",
+	"x-camoufox-launch-options",
+	"sec-websocket-extensions",
+];
+
+export type RequestHandler = (
+	req: IncomingMessage,
+	res: ServerResponse,
+) => boolean;
+
+export type UpgradeHandler = (
+	req: IncomingMessage,
+	socket: Duplex,
+	head: Buffer,
+) => void | Promise<void>;
+
+/**
+ * Answers a WebSocket upgrade with an HTTP error and closes the socket.
+ */
+export function rejectUpgrade(
+	socket: Duplex,
+	status: number,
+	message: string,
+): void {
+	socket.end(
+		`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n` +
+			"Content-Type: text/plain\r\nConnection: close\r\n\r\n" +
+			`${message}\n`,
+	);
+}
+
+/**
+ * Forwards the client's WebSocket upgrade to a Playwright browser server, then pipes both sockets.
+ * `onServerData` sees everything the browser server sends to the client.
+ */
+export function proxyUpgrade(
+	req: IncomingMessage,
+	client: Duplex,
+	head: Buffer,
+	wsEndpoint: string,
+	onServerData?: (chunk: Buffer) => void,
+): Promise<void> {
+	const endpoint = new URL(wsEndpoint);
+
+	return new Promise<void>((resolve, reject) => {
+		const upstream: Socket = connect(
+			Number(endpoint.port),
+			endpoint.hostname,
+			() => {
+				const headers: string[] = [];
+				for (let i = 0; i < req.rawHeaders.length; i += 2) {
+					const name = req.rawHeaders[i];
+					if (!HOP_HEADERS.includes(name.toLowerCase())) {
+						headers.push(`${name}: ${req.rawHeaders[i + 1]}`);
+					}
+				}
+				upstream.write(
+					[
+						`GET ${endpoint.pathname} HTTP/1.1`,
+						`Host: ${endpoint.host}`,
+						...headers,
+						"",
+						"",
+					].join("\r\n"),
+				);
+				if (head.length > 0) {
+					upstream.write(head);
+				}
+				if (onServerData) {
+					upstream.on("data", onServerData);
+				}
+				upstream.pipe(client).pipe(upstream);
+				resolve();
+			},
+		);
+		// Either side failing closes the other one
+		upstream.on("error", reject);
+		client.on("error", () => upstream.destroy());
+		client.once("close", () => upstream.destroy());
+		upstream.once("close", () => client.destroy());
+	});
+}
+
+/**
+ * Starts an HTTP server that hands WebSocket upgrades on `path` to `onUpgrade`.
+ * Plain HTTP requests go to `onRequest`, and are otherwise answered with 426 Upgrade Required.
+ */
+export async function listenForUpgrades(
+	port: number,
+	host: string,
+	path: string,
+	onUpgrade: UpgradeHandler,
+	onRequest?: RequestHandler,
+): Promise<Server> {
+	const server = createServer((req, res) => {
+		if (onRequest?.(req, res)) return;
+		res.writeHead(426, { "Content-Type": "text/plain" });
+		res.end("Connect with Playwright's BrowserType.connect().\n");
+	});
+
+	server.on("upgrade", (req, socket, head) => {
+		// Node no longer handles errors of upgraded sockets, e.g. a client resetting the connection
+		socket.on("error", () => socket.destroy());
+		if (new URL(req.url ?? "/", "http://localhost").pathname !== path) {
+			socket.destroy();
+			return;
+		}
+		Promise.resolve(onUpgrade(req, socket, head)).catch((error) => {
+			rejectUpgrade(socket, 500, (error as Error).message);
+		});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(port, host, () => {
+			server.off("error", reject);
+			resolve();
+		});
+	});
+	return server;
+}
+
+/**
+ * WebSocket endpoint of a server started by `listenForUpgrades`.
+ */
+export function upgradeEndpoint(
+	server: Server,
+	host: string,
+	path: string,
+): string {
+	const address = server.address();
+	const port = typeof address === "object" && address ? address.port : 0;
+	const hostname = host.includes(":") ? `[${host}]` : host;
+	return `ws://${hostname}:${port}${path}`;
+}
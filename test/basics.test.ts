@@ -3,7 +3,12 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { firefox } from "playwright-core";
 import { describe, expect, test } from "vitest";
-import { Camoufox, launchServer } from "../src";
+import {
+	Camoufox,
+	CamoufoxPool,
+	launchServer,
+	VirtualDisplayPool,
+} from "../src";
 
 const TEST_CASES = [
 	{ os: "linux", userAgentRegex: /Linux/i },
@@ -44,6 +49,39 @@ describe("virtual display", () => {
 		await page.goto("https://api.apify.com/v2/browser-info");
 		await browser2.close();
 	}, 10e3);
+
+	test("browser supports async disposal", async () => {
+		const browser = await Camoufox({
+			os: "linux",
+			headless: "virtual",
+		} as any);
+
+		await browser[Symbol.asyncDispose]();
+		expect(browser.isConnected()).toBe(false);
+	}, 10e3);
+
+	test("browsers share displays from a pool", async () => {
+		const pool = new VirtualDisplayPool({ size: 1 });
+
+		const browser1 = await Camoufox({
+			os: "linux",
+			headless: "virtual",
+			virtual_display_pool: pool,
+		} as any);
+		const browser2 = await Camoufox({
+			os: "linux",
+			headless: "virtual",
+			virtual_display_pool: pool,
+		} as any);
+
+		expect(pool.running).toBe(1);
+
+		await browser1.close();
+		expect(pool.running).toBe(1);
+
+		await browser2.close();
+		expect(pool.running).toBe(0);
+	}, 10e3);
 });
 
 describe("Fingerprint consistency", () => {
@@ -141,3 +179,49 @@ test("Persistent context works", async () => {
 
 	expect(readCookies).toEqual({ name: "value" });
 }, 30e3);
+
+test("Persistent context keeps its fingerprint", async () => {
+	const userDataDir = await mkdtemp(join(tmpdir(), "user_data_"));
+
+	const readFingerprint = async () => {
+		const context = await Camoufox({
+			user_data_dir: userDataDir,
+			headless: true,
+		});
+
+		const page = await context.newPage();
+		const fingerprint = await page.evaluate(() => ({
+			userAgent: navigator.userAgent,
+			hardwareConcurrency: navigator.hardwareConcurrency,
+			screen: [screen.width, screen.height],
+		}));
+		await page.close();
+		await context.close();
+		return fingerprint;
+	};
+
+	const first = await readFingerprint();
+	const second = await readFingerprint();
+
+	expect(second).toEqual(first);
+}, 30e3);
+
+test("Browser pool recycles browsers after max_pages", async () => {
+	const pool = new CamoufoxPool({
+		size: 1,
+		headless: true,
+		max_pages: 1,
+	});
+	await pool.start();
+
+	const first = await pool.run(async (browser) => {
+		await browser.newPage();
+		return browser;
+	});
+	const second = await pool.run(async (browser) => browser);
+
+	expect(second).not.toBe(first);
+	expect(first.isConnected()).toBe(false);
+	await pool.close();
+	expect(pool.running).toBe(0);
+}, 30e3);
@@ -0,0 +1,68 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, test } from "vitest";
+import {
+	CamoufoxNotInstalled,
+	FingerprintPoolExhausted,
+} from "../src/exceptions";
+import { FingerprintPool } from "../src/fingerprint_pool";
+
+// Camoufox is not installed where the tests run
+const ff_version = "135";
+
+describe("FingerprintPool", () => {
+	test("hands out fingerprints round-robin and counts uses", () => {
+		const pool = new FingerprintPool({ size: 3, os: "windows", ff_version });
+		const ids = [1, 2, 3, 4].map(() => pool.next().id);
+
+		expect(ids).toEqual(["fp-1", "fp-2", "fp-3", "fp-1"]);
+		expect(pool.get("fp-1")?.uses).toBe(2);
+		for (const entry of pool.entries) {
+			expect(entry.profile.config["navigator.userAgent"]).toMatch(/Windows/);
+			expect(entry.profile.config["navigator.userAgent"]).toMatch(
+				/Firefox\/135\.0$/,
+			);
+		}
+	});
+
+	test("weighted strategy skips zero-weight fingerprints", () => {
+		const pool = new FingerprintPool({
+			size: 2,
+			strategy: "weighted",
+			ff_version,
+		});
+		pool.setWeight("fp-1", 0);
+
+		for (let i = 0; i < 10; i++) {
+			expect(pool.next().id).toBe("fp-2");
+		}
+	});
+
+	test("retired fingerprints are not handed out", () => {
+		const pool = new FingerprintPool({ size: 2, ff_version });
+		pool.retire("fp-1");
+		expect(pool.next().id).toBe("fp-2");
+
+		pool.retire("fp-2");
+		expect(() => pool.next()).toThrow(FingerprintPoolExhausted);
+	});
+
+	test("replenish keeps the pool at its size", () => {
+		const pool = new FingerprintPool({ size: 2, replenish: true, ff_version });
+		pool.retire("fp-1");
+
+		expect(pool.active.map((entry) => entry.id)).toEqual(["fp-2", "fp-3"]);
+	});
+
+	test("requires ff_version when Camoufox is not installed", async () => {
+		const installationDirectory = await mkdtemp(join(tmpdir(), "camoufox_"));
+		expect(
+			() =>
+				new FingerprintPool({
+					size: 1,
+					paths: { installationDirectory },
+				}),
+		).toThrow(CamoufoxNotInstalled);
+	});
+});
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "vitest";
+import { fromBrowserforge, generateFingerprint } from "../src/fingerprints";
+import { seededRandom } from "../src/random";
+
+describe("Seeded fingerprints", () => {
+	test("same seed generates the same fingerprint", () => {
+		const first = generateFingerprint(
+			undefined,
+			{ operatingSystems: ["linux"] },
+			seededRandom(42),
+		);
+		const second = generateFingerprint(
+			undefined,
+			{ operatingSystems: ["linux"] },
+			seededRandom(42),
+		);
+
+		expect(second).toEqual(first);
+		expect(fromBrowserforge(second, "135", seededRandom("seed"))).toEqual(
+			fromBrowserforge(first, "135", seededRandom("seed")),
+		);
+	});
+
+	test("different seeds generate different fingerprints", () => {
+		const first = generateFingerprint(undefined, {}, seededRandom(1));
+		const second = generateFingerprint(undefined, {}, seededRandom(2));
+
+		expect(second).not.toEqual(first);
+	});
+});
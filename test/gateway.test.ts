@@ -0,0 +1,36 @@
+import type { IncomingMessage } from "node:http";
+import { describe, expect, test } from "vitest";
+import { LAUNCH_OPTIONS_HEADER, parseClientOptions } from "../src/gateway";
+
+const request = (url: string, headers: Record<string, string> = {}) =>
+	({ url, headers }) as IncomingMessage;
+
+describe("parseClientOptions", () => {
+	test("reads query parameters as JSON or strings", () => {
+		const options = parseClientOptions(
+			request("/?os=windows&os=macos&geoip=true&locale=en-US,de-DE"),
+		);
+
+		expect(options).toEqual({
+			os: ["windows", "macos"],
+			geoip: true,
+			locale: "en-US,de-DE",
+		});
+	});
+
+	test("query parameters override the handshake header", () => {
+		const options = parseClientOptions(
+			request("/?os=linux", {
+				[LAUNCH_OPTIONS_HEADER]: JSON.stringify({ os: "windows", seed: 1 }),
+			}),
+		);
+
+		expect(options).toEqual({ os: "linux", seed: 1 });
+	});
+
+	test("rejects options clients may not set", () => {
+		expect(() =>
+			parseClientOptions(request("/?executable_path=/bin/sh")),
+		).toThrow(/executable_path/);
+	});
+});
@@ -0,0 +1,94 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import maxmind, { type CityResponse, type Reader } from "maxmind";
+import { describe, expect, test, vi } from "vitest";
+import {
+	CSVGeoIPProvider,
+	closeMMDB,
+	MMDBGeoIPProvider,
+	StaticGeoIPProvider,
+} from "../src/geoip";
+
+const BERLIN = {
+	country: "DE",
+	latitude: 52.52437,
+	longitude: 13.41053,
+	timezone: "Europe/Berlin",
+};
+
+describe("CSVGeoIPProvider", () => {
+	test("looks up IPv4 and IPv6 ranges in an IP2Location file", async () => {
+		const file = join(await mkdtemp(join(tmpdir(), "geoip_")), "db11.csv");
+		await writeFile(
+			file,
+			[
+				'"ip_from","ip_to","country_code","country_name","region_name","city_name","latitude","longitude","zip_code","time_zone"',
+				'"0","16777215","-","-","-","-","0.000000","0.000000","-","-"',
+				'"3221225984","3221226239","IN","India","Delhi","Delhi","28.65195","77.23149","110001","+05:30"',
+				'"3323068416","3323068671","CA","Canada","Newfoundland and Labrador","St. John\'s","47.56494","-52.70931","A1A","-02:30"',
+				'"3405803776","3405804031","DE","Germany","Berlin","Berlin","52.52437","13.41053","10178","+01:00"',
+				'"42540766411282592856903984951653826560","42540766411282592875350729025363378175","US","United States of America","California","Los Angeles","34.05223","-118.24368","90001","America/Los_Angeles"',
+			].join("\n"),
+		);
+		const provider = new CSVGeoIPProvider(file);
+
+		expect(provider.lookup("203.0.113.7")).toEqual(BERLIN);
+		expect(provider.lookup("2001:db8::1")).toMatchObject({
+			country: "US",
+			timezone: "America/Los_Angeles",
+		});
+		// UTC offsets resolve to the time zone of the country, including half hours and summer time
+		expect(provider.lookup("192.0.2.1")).toMatchObject({
+			country: "IN",
+			timezone: "Asia/Kolkata",
+		});
+		expect(provider.lookup("198.18.0.1")).toMatchObject({
+			country: "CA",
+			timezone: "America/St_Johns",
+		});
+		expect(provider.lookup("0.0.0.1")).toBeNull();
+		expect(provider.lookup("198.51.100.1")).toBeNull();
+	});
+});
+
+describe("StaticGeoIPProvider", () => {
+	test("matches addresses and ranges before the fallback", async () => {
+		const provider = new StaticGeoIPProvider(
+			{ "10.0.0.0/8": BERLIN },
+			{
+				lookup: (ip) =>
+					ip === "192.0.2.1" ? { ...BERLIN, country: "AT" } : null,
+			},
+		);
+
+		expect(await provider.lookup("10.1.2.3")).toEqual(BERLIN);
+		expect(await provider.lookup("192.0.2.1")).toMatchObject({ country: "AT" });
+		expect(await provider.lookup("192.0.2.2")).toBeNull();
+	});
+});
+
+describe("MMDBGeoIPProvider", () => {
+	test("opens each database once until it is closed", async () => {
+		const file = join(await mkdtemp(join(tmpdir(), "geoip_")), "City.mmdb");
+		await writeFile(file, "");
+		const open = vi.spyOn(maxmind, "open").mockResolvedValue({
+			get: () => ({
+				country: { iso_code: "de" },
+				location: { ...BERLIN, time_zone: BERLIN.timezone },
+			}),
+		} as unknown as Reader<CityResponse>);
+		const provider = new MMDBGeoIPProvider(file);
+
+		expect(await provider.lookup("203.0.113.7")).toEqual(BERLIN);
+		await provider.lookup("203.0.113.8");
+		expect(open).toHaveBeenCalledTimes(1);
+
+		closeMMDB(file);
+		await provider.lookup("203.0.113.7");
+		expect(open).toHaveBeenCalledTimes(2);
+
+		closeMMDB(file);
+		open.mockRestore();
+	});
+});
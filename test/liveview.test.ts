@@ -0,0 +1,11 @@
+import { describe, expect, test } from "vitest";
+import { LiveViewFailed } from "../src/exceptions";
+import { LiveView } from "../src/liveview";
+
+describe("LiveView", () => {
+	test("requires a password beyond this machine", async () => {
+		await expect(
+			new LiveView({ localhost: false }).start(":99"),
+		).rejects.toThrow(LiveViewFailed);
+	});
+});
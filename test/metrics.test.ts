@@ -0,0 +1,63 @@
+import { describe, expect, test } from "vitest";
+import { ProtocolTracker } from "../src/metrics";
+
+// Unmasked text frame, as sent by a WebSocket server
+const frame = (message: unknown) => {
+	const payload = Buffer.from(JSON.stringify(message));
+	const header =
+		payload.length < 126
+			? Buffer.from([0x81, payload.length])
+			: Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]);
+	return Buffer.concat([header, payload]);
+};
+
+const create = (parent: string, type: string, guid: string) =>
+	frame({ guid: parent, method: "__create__", params: { type, guid } });
+
+// Response of the browser server to the proxied upgrade, in front of the frames
+const switchingProtocols = Buffer.from(
+	"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+		"Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=\r\n\r\n",
+);
+
+describe("ProtocolTracker", () => {
+	test("skips the upgrade response before the frames", () => {
+		const tracker = new ProtocolTracker();
+		const data = Buffer.concat([
+			switchingProtocols,
+			...Array.from({ length: 5 }, (_, i) =>
+				create("browser@1", "BrowserContext", `browser-context@${i}`),
+			),
+		]);
+		// Byte by byte, so that the response and the frame headers are split too
+		for (let i = 0; i < data.length; i++) {
+			tracker.push(data.subarray(i, i + 1));
+		}
+
+		expect(tracker.count("BrowserContext")).toBe(5);
+	});
+
+	test("counts contexts and pages across split chunks", () => {
+		const tracker = new ProtocolTracker();
+		const data = Buffer.concat([
+			switchingProtocols,
+			create("browser@1", "BrowserContext", "browser-context@1"),
+			create("browser-context@1", "Page", "page@1"),
+			create("browser-context@1", "Page", "page@2"),
+			create("browser@1", "BrowserContext", "browser-context@2"),
+		]);
+		tracker.push(data.subarray(0, 7));
+		tracker.push(data.subarray(7));
+
+		expect(tracker.count("BrowserContext")).toBe(2);
+		expect(tracker.count("Page")).toBe(2);
+
+		tracker.push(frame({ guid: "page@2", method: "close", params: {} }));
+		expect(tracker.count("Page")).toBe(1);
+
+		// Disposing a context disposes its pages
+		tracker.push(frame({ guid: "browser-context@1", method: "__dispose__" }));
+		expect(tracker.count("BrowserContext")).toBe(1);
+		expect(tracker.count("Page")).toBe(0);
+	});
+});
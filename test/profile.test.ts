@@ -0,0 +1,161 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, test } from "vitest";
+import { InvalidProfile } from "../src/exceptions";
+import {
+	exportProfile,
+	importProfile,
+	loadProfile,
+	PROFILE_FILENAME,
+	saveProfile,
+} from "../src/profile";
+import { configFromEnv, launchOptions } from "../src/utils";
+
+// Where uBlock Origin, a default addon, is extracted on another machine
+const UBO_PATH = "/home/other/.cache/camoufox/addons/latest-7511";
+
+const LAUNCH_OPTIONS = {
+	env: {
+		CAMOU_CONFIG_1: JSON.stringify({
+			"navigator.userAgent": "Mozilla/5.0",
+			addons: ["/addons/ubo", UBO_PATH],
+		}),
+	},
+	firefoxUserPrefs: { "webgl.enable-webgl2": true },
+	proxy: {
+		server: "http://proxy.example.com:8000",
+		username: "user",
+		password: "secret",
+	},
+};
+
+describe("Profile documents", () => {
+	test("export splits the user's addons from the config", () => {
+		const document = JSON.parse(exportProfile(LAUNCH_OPTIONS));
+
+		expect(document.formatVersion).toBe(1);
+		expect(document.config).toEqual({ "navigator.userAgent": "Mozilla/5.0" });
+		expect(document.addons).toEqual(["/addons/ubo"]);
+		expect(document.firefoxUserPrefs).toEqual({ "webgl.enable-webgl2": true });
+		expect(document.proxy.password).toBe("secret");
+	});
+
+	test("export can redact the proxy password", () => {
+		const document = JSON.parse(
+			exportProfile(LAUNCH_OPTIONS, { redactProxy: true }),
+		);
+
+		expect(document.proxy).toEqual({
+			server: "http://proxy.example.com:8000",
+			username: "user",
+		});
+	});
+
+	test("the WebRTC IPs of the last proxy are not kept", async () => {
+		const options = {
+			...LAUNCH_OPTIONS,
+			env: {
+				CAMOU_CONFIG_1: JSON.stringify({
+					"navigator.userAgent": "Mozilla/5.0",
+					"webrtc:ipv4": "203.0.113.7",
+					"webrtc:ipv6": "2001:db8::7",
+				}),
+			},
+		};
+		const userDataDir = await mkdtemp(join(tmpdir(), "profile_"));
+		saveProfile(userDataDir, options);
+
+		expect(loadProfile(userDataDir)?.config).toEqual({
+			"navigator.userAgent": "Mozilla/5.0",
+		});
+		expect(JSON.parse(exportProfile(options)).config).toEqual({
+			"navigator.userAgent": "Mozilla/5.0",
+		});
+
+		// Profiles stored before the IPs were left out
+		await writeFile(
+			join(userDataDir, PROFILE_FILENAME),
+			JSON.stringify({
+				config: { "webrtc:ipv4": "203.0.113.7" },
+				firefoxUserPrefs: {},
+			}),
+		);
+		expect(loadProfile(userDataDir)?.config).toEqual({});
+	});
+
+	test("import rejects unknown format versions", async () => {
+		await expect(
+			importProfile({ formatVersion: 999, config: {} }),
+		).rejects.toThrow(InvalidProfile);
+	});
+
+	test("a truncated stored profile is reported as invalid", async () => {
+		const userDataDir = await mkdtemp(join(tmpdir(), "profile_"));
+		await writeFile(join(userDataDir, PROFILE_FILENAME), '{"config": {"navig');
+
+		expect(() => loadProfile(userDataDir)).toThrow(InvalidProfile);
+	});
+});
+
+describe("Profile round-trip", () => {
+	test("launchOptions restores the config, addons and proxy of a document", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "camoufox_"));
+		const addon = await mkdtemp(join(tmpdir(), "addon_"));
+		await writeFile(join(addon, "manifest.json"), "{}");
+		const types: Record<string, string> = {
+			"navigator.userAgent": "str",
+			"navigator.platform": "str",
+			addons: "array",
+			fonts: "array",
+			"fonts:spacing_seed": "uint",
+			"window.history.length": "uint",
+			"canvas:aaOffset": "int",
+			"canvas:aaCapOffset": "bool",
+		};
+		await writeFile(
+			join(dir, "version.json"),
+			JSON.stringify({ version: "135.0.1", release: "beta.24" }),
+		);
+		await writeFile(
+			join(dir, "properties.json"),
+			JSON.stringify(
+				Object.entries(types).map(([property, type]) => ({ property, type })),
+			),
+		);
+		const options = {
+			executable_path: join(dir, "camoufox-bin"),
+			ff_version: 135,
+			exclude_addons: ["UBO" as const],
+			block_webgl: true,
+			i_know_what_im_doing: true,
+		};
+
+		const exported = await launchOptions({
+			...options,
+			// A small device, so that only a few properties need to be declared
+			profile: {
+				config: {
+					"navigator.userAgent":
+						"Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:135.0) Gecko/20100101 Firefox/135.0",
+					"navigator.platform": "Win32",
+				},
+				firefoxUserPrefs: {},
+			},
+			addons: [addon],
+			proxy: { server: "http://proxy.example.com:8000", username: "user" },
+		});
+		// Exported on a machine with another home directory
+		const document = await importProfile(
+			{
+				...JSON.parse(exportProfile(exported)),
+				addons: [addon, UBO_PATH],
+			},
+			{ installationDirectory: dir },
+		);
+		const restored = await launchOptions({ ...options, profile: document });
+
+		expect(configFromEnv(restored.env)).toEqual(configFromEnv(exported.env));
+		expect(restored.proxy).toEqual(exported.proxy);
+	});
+});
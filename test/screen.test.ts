@@ -0,0 +1,52 @@
+import { describe, expect, test } from "vitest";
+import {
+	parseXdpyinfoScreen,
+	parseXrandrMonitors,
+	screenConsFromMonitors,
+} from "../src/utils";
+
+describe("X display screens", () => {
+	test("reads the monitors listed by xrandr", () => {
+		const output = [
+			"Monitors: 2",
+			" 0: +*HDMI-1 1920/527x1080/296+0+0  HDMI-1",
+			" 1: +DP-2 2560/597x1440/336+1920+0  DP-2",
+		].join("\n");
+
+		expect(parseXrandrMonitors(output)).toEqual([
+			[1920, 1080],
+			[2560, 1440],
+		]);
+		expect(parseXrandrMonitors("Monitors: 0\n")).toEqual([]);
+	});
+
+	test("reads the screen size reported by xdpyinfo", () => {
+		const output = [
+			"screen #0:",
+			"  dimensions:    1920x1080 pixels (508x285 millimeters)",
+			"  resolution:    96x96 dots per inch",
+		].join("\n");
+
+		expect(parseXdpyinfoScreen(output)).toEqual([1920, 1080]);
+		expect(parseXdpyinfoScreen("name of display:    :0\n")).toBeNull();
+	});
+
+	test("constrains the screen to the largest monitor", () => {
+		expect(
+			screenConsFromMonitors([
+				[1920, 1080],
+				[2560, 1440],
+			]),
+		).toEqual({ maxWidth: 2560, maxHeight: 1440 });
+		expect(screenConsFromMonitors([])).toBeUndefined();
+	});
+
+	test("ignores displays smaller than 800x600", () => {
+		expect(screenConsFromMonitors([[640, 480]])).toBeUndefined();
+		expect(screenConsFromMonitors([[1024, 599]])).toBeUndefined();
+		expect(screenConsFromMonitors([[800, 600]])).toEqual({
+			maxWidth: 800,
+			maxHeight: 600,
+		});
+	});
+});
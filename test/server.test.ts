@@ -0,0 +1,166 @@
+import { EventEmitter } from "node:events";
+import { createServer, type IncomingMessage } from "node:http";
+import { connect, type Socket } from "node:net";
+import { describe, expect, test, vi } from "vitest";
+import { InvalidIP, UnprotectedServer } from "../src/exceptions";
+import {
+	assertServerProtected,
+	checkAccess,
+	launchServer,
+} from "../src/server";
+
+// A stand-in for the browser server, which accepts every WebSocket upgrade
+const browserServer = vi.hoisted(() => ({ closed: false }));
+vi.mock("playwright-core", async (importOriginal) => ({
+	...(await importOriginal<typeof import("playwright-core")>()),
+	firefox: {
+		launchServer: async () => {
+			const upstream = createServer();
+			upstream.on("upgrade", (_req, socket) => {
+				socket.write(
+					"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n",
+				);
+				// Like the browser, hang up once the client does
+				socket.once("end", () => socket.end());
+			});
+			await new Promise<void>((resolve) =>
+				upstream.listen(0, "127.0.0.1", resolve),
+			);
+			const address = upstream.address() as { port: number };
+			browserServer.closed = false;
+			const close = async () => {
+				browserServer.closed = true;
+				upstream.closeAllConnections();
+				await new Promise((resolve) => upstream.close(resolve));
+				server.emit("close");
+			};
+			const server = Object.assign(new EventEmitter(), {
+				wsEndpoint: () => `ws://127.0.0.1:${address.port}/browser`,
+				process: () => undefined,
+				close,
+				kill: close,
+			});
+			return server;
+		},
+	},
+}));
+vi.mock("../src/utils", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../src/utils")>()),
+	launchOptions: async () => ({}),
+}));
+
+// Sends a WebSocket upgrade and resolves with the status line of the answer
+const upgrade = (endpoint: string) =>
+	new Promise<{ socket: Socket; status: string }>((resolve, reject) => {
+		const url = new URL(endpoint);
+		const socket = connect(Number(url.port), url.hostname, () =>
+			socket.write(
+				[
+					`GET ${url.pathname} HTTP/1.1`,
+					`Host: ${url.host}`,
+					"Upgrade: websocket",
+					"Connection: Upgrade",
+					"Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+					"Sec-WebSocket-Version: 13",
+					"",
+					"",
+				].join("\r\n"),
+			),
+		);
+		socket.once("data", (chunk) =>
+			resolve({ socket, status: chunk.toString().split("\r\n")[0] }),
+		);
+		socket.once("error", reject);
+	});
+
+const request = (
+	remoteAddress: string,
+	url = "/",
+	headers: Record<string, string> = {},
+) =>
+	({ url, headers, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+describe("server access", () => {
+	test("requires a token or allowlist outside localhost", () => {
+		expect(() => assertServerProtected("0.0.0.0", {})).toThrow(
+			UnprotectedServer,
+		);
+		expect(() => assertServerProtected("localhost", {})).not.toThrow();
+		expect(() =>
+			assertServerProtected("0.0.0.0", { token: "secret" }),
+		).not.toThrow();
+	});
+
+	test("rejects malformed allowed_ips at startup", () => {
+		for (const allowed of ["10.0.0.0/33", "10.0.0.0/", "10.0.0", "localhost"]) {
+			expect(() =>
+				assertServerProtected("0.0.0.0", { allowed_ips: [allowed] }),
+			).toThrow(InvalidIP);
+		}
+		expect(() =>
+			assertServerProtected("0.0.0.0", {
+				allowed_ips: ["10.0.0.0/8", "2001:db8::/32", "192.168.1.5"],
+			}),
+		).not.toThrow();
+	});
+
+	test("checks the bearer token or token parameter", () => {
+		const access = { token: "secret" };
+
+		expect(checkAccess(request("10.0.0.1"), access)).toMatchObject({
+			allowed: false,
+			reason: "missing-token",
+		});
+		expect(
+			checkAccess(
+				request("10.0.0.1", "/", { authorization: "Bearer wrong" }),
+				access,
+			),
+		).toMatchObject({ allowed: false, reason: "invalid-token" });
+		expect(
+			checkAccess(
+				request("10.0.0.1", "/", { authorization: "Bearer secret" }),
+				access,
+			).allowed,
+		).toBe(true);
+		expect(
+			checkAccess(request("10.0.0.1", "/?token=secret"), access).allowed,
+		).toBe(true);
+	});
+
+	test("checks the client address against the allowlist", () => {
+		const access = { allowed_ips: ["10.0.0.0/8", "192.168.1.5"] };
+
+		expect(checkAccess(request("::ffff:10.1.2.3"), access).allowed).toBe(true);
+		expect(checkAccess(request("192.168.1.5"), access).allowed).toBe(true);
+		expect(checkAccess(request("192.168.1.6"), access)).toMatchObject({
+			allowed: false,
+			reason: "ip-not-allowed",
+		});
+	});
+});
+
+describe("server shutdown", () => {
+	test("rejects new clients and waits for connected ones to leave", async () => {
+		const server = await launchServer({ headless: true });
+		const client = await upgrade(server.wsEndpoint());
+		expect(client.status).toBe("HTTP/1.1 101 Switching Protocols");
+
+		let done = false;
+		const shutdown = server.shutdown(5e3).then(() => {
+			done = true;
+		});
+
+		const late = await upgrade(server.wsEndpoint());
+		expect(late.status).toBe("HTTP/1.1 503 Service Unavailable");
+		late.socket.destroy();
+
+		await new Promise((resolve) => setTimeout(resolve, 300));
+		expect(done).toBe(false);
+		expect(browserServer.closed).toBe(false);
+
+		client.socket.destroy();
+		await shutdown;
+		expect(browserServer.closed).toBe(true);
+	});
+});
@@ -0,0 +1,78 @@
+import { mkdir, mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { describe, expect, test } from "vitest";
+import { XvfbStartupFailed } from "../src/exceptions";
+import { screenFromOptions } from "../src/sync_api";
+import { VirtualDisplay } from "../src/virtdisplay";
+
+describe("VirtualDisplay.cleanup_stale_locks", () => {
+	test("removes the lock and socket of dead X servers only", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "xlocks_"));
+		await mkdir(join(dir, ".X11-unix"));
+		// No process has this pid
+		await writeFile(join(dir, ".X5-lock"), "999999999\n");
+		await writeFile(join(dir, ".X11-unix", "X5"), "");
+		await writeFile(join(dir, ".X6-lock"), `${process.pid}\n`);
+		await writeFile(join(dir, ".X11-unix", "X6"), "");
+
+		expect(VirtualDisplay.cleanup_stale_locks(dir).sort()).toEqual([
+			join(dir, ".X11-unix", "X5"),
+			join(dir, ".X5-lock"),
+		]);
+		expect(VirtualDisplay._get_lock_files(dir)).toEqual([
+			join(dir, ".X6-lock"),
+		]);
+	});
+});
+
+describe("screenFromOptions", () => {
+	test("sizes the display after the screen of the fingerprint", () => {
+		const env = {
+			CAMOU_CONFIG_1: JSON.stringify({
+				"screen.width": 1536,
+				"screen.height": 864,
+				"screen.colorDepth": 30,
+			}),
+		};
+
+		expect(screenFromOptions({ env })).toEqual({
+			width: 1536,
+			height: 864,
+			depth: 30,
+		});
+		// Without a fingerprint, the display keeps its defaults
+		expect(screenFromOptions({})).toEqual({
+			width: undefined,
+			height: undefined,
+			depth: undefined,
+		});
+	});
+});
+
+describe("VirtualDisplay startup", () => {
+	test("reports the output of an Xvfb that fails to start", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "xvfb_"));
+		// Stands in for Xvfb, counting its starts
+		await writeFile(
+			join(dir, "Xvfb"),
+			`#!/bin/sh\necho start >> "${join(dir, "starts")}"\necho "(EE) Fatal server error: no screens found" >&2\nexit 1\n`,
+			{ mode: 0o755 },
+		);
+		const path = process.env.PATH;
+		process.env.PATH = `${dir}${delimiter}${path}`;
+		try {
+			const error = await new VirtualDisplay().get().catch((error) => error);
+
+			expect(error).toBeInstanceOf(XvfbStartupFailed);
+			expect(error.message).toContain("before reporting a display");
+			expect(error.stderr).toContain("Fatal server error: no screens found");
+			// Retried, in case another Xvfb took the display
+			expect(
+				(await readFile(join(dir, "starts"), "utf-8")).trim().split("\n"),
+			).toHaveLength(3);
+		} finally {
+			process.env.PATH = path;
+		}
+	});
+});
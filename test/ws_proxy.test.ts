@@ -0,0 +1,82 @@
+import { createServer, type Server } from "node:http";
+import { connect, type Socket } from "node:net";
+import { afterEach, describe, expect, test } from "vitest";
+import {
+	listenForUpgrades,
+	proxyUpgrade,
+	upgradeEndpoint,
+} from "../src/ws_proxy";
+
+const servers: Server[] = [];
+
+afterEach(() => {
+	for (const server of servers.splice(0)) {
+		server.closeAllConnections();
+		server.close();
+	}
+});
+
+// Browser server stand-in, which keeps sending frames to its clients
+async function streamingServer(): Promise<string> {
+	const server = createServer();
+	server.on("upgrade", (_req, socket) => {
+		socket.on("error", () => {});
+		socket.write(
+			"HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n",
+		);
+		const timer = setInterval(() => socket.write(Buffer.alloc(16 * 1024)), 1);
+		socket.once("close", () => clearInterval(timer));
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	servers.push(server);
+	return upgradeEndpoint(server, "127.0.0.1", "/browser");
+}
+
+// Sends a WebSocket upgrade and resolves once the answer starts
+const upgrade = (endpoint: string) =>
+	new Promise<Socket>((resolve, reject) => {
+		const url = new URL(endpoint);
+		const socket = connect(Number(url.port), url.hostname, () =>
+			socket.write(
+				[
+					`GET ${url.pathname} HTTP/1.1`,
+					`Host: ${url.host}`,
+					"Upgrade: websocket",
+					"Connection: Upgrade",
+					"Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+					"Sec-WebSocket-Version: 13",
+					"",
+					"",
+				].join("\r\n"),
+			),
+		);
+		socket.once("data", () => resolve(socket));
+		socket.once("error", reject);
+	});
+
+describe("proxyUpgrade", () => {
+	test("survives clients resetting the connection mid-stream", async () => {
+		const browserEndpoint = await streamingServer();
+		const front = await listenForUpgrades(
+			0,
+			"127.0.0.1",
+			"/",
+			(req, socket, head) => proxyUpgrade(req, socket, head, browserEndpoint),
+		);
+		servers.push(front);
+		const endpoint = upgradeEndpoint(front, "127.0.0.1", "/");
+
+		for (let i = 0; i < 5; i++) {
+			const client = await upgrade(endpoint);
+			// Stop reading, so that the proxy is still writing when the reset arrives
+			client.pause();
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			client.resetAndDestroy();
+		}
+		await new Promise((resolve) => setTimeout(resolve, 100));
+
+		// Other clients are still served
+		const client = await upgrade(endpoint);
+		client.destroy();
+	});
+});